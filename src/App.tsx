@@ -6,6 +6,7 @@ import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import HomePage from './pages/HomePage';
 import { StatsPage } from './pages/StatsPage';
 import { AboutPage } from './pages/AboutPage';
+import { SettingsPage } from './pages/SettingsPage';
 
 /**
  * App component that sets up the application routing
@@ -18,6 +19,7 @@ const App: React.FC = () => {
         <Route path="/" element={<HomePage />} />
         <Route path="/stats" element={<StatsPage />} />
         <Route path="/about" element={<AboutPage />} />
+        <Route path="/settings" element={<SettingsPage />} />
       </Routes>
     </Router>
   );
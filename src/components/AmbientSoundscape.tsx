@@ -0,0 +1,53 @@
+/**
+ * AmbientSoundscape component that plays a background soundscape during a session.
+ * Renders nothing; it follows the same lung fill level that scales the breathing sphere.
+ * Features:
+ * - Filter cutoff and volume that swell on the inhale and settle on the exhale
+ * - Soundscape matching the active pattern's theme, or a fixed choice
+ * - Fades out while paused and after the session ends
+ */
+import React, { useEffect } from 'react';
+import { useBreathingStore } from '../store/breathingStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { sessionEngine } from '../lib/sessionEngine';
+import { getFillLevel } from '../lib/breathingPhases';
+import { getPattern } from '../lib/breathingPatterns';
+import { getThemeSoundscape, soundscapePlayer } from '../lib/soundscape';
+
+/**
+ * AmbientSoundscape component that drives the soundscape player from the session engine
+ * @returns {null} Nothing is rendered
+ */
+export const AmbientSoundscape: React.FC = () => {
+  const { isBreathing, isPaused, patternId, customPatterns } = useBreathingStore();
+  const ambient = useSettingsStore(state => state.ambient);
+
+  // Routines change the pattern between segments, so the theme's soundscape follows along
+  const soundscapeId = ambient.soundscape === 'theme'
+    ? getThemeSoundscape(getPattern(patternId, customPatterns)?.theme.name)
+    : ambient.soundscape;
+
+  // Follow the breath on each tick
+  useEffect(() => {
+    if (!ambient.enabled) return;
+
+    return sessionEngine.subscribe(({ type, progress }) => {
+      if (type === 'progress') {
+        soundscapePlayer.setLevel(
+          soundscapeId,
+          getFillLevel(progress.phases, progress.phaseIndex, progress.phaseProgress),
+          ambient
+        );
+      } else if (type === 'complete') {
+        soundscapePlayer.stop();
+      }
+    });
+  }, [ambient, soundscapeId]);
+
+  // The engine stops ticking while paused or stopped, so fade the soundscape out here
+  useEffect(() => {
+    if (!isBreathing || isPaused || !ambient.enabled) soundscapePlayer.stop();
+  }, [isBreathing, isPaused, ambient.enabled]);
+
+  return null;
+};
@@ -0,0 +1,51 @@
+/**
+ * AudioCues component that plays sound cues during a breathing session.
+ * Renders nothing; it listens to the session engine's phase changes, the same
+ * events that publish the current phase to the store.
+ * Features:
+ * - A cue at each phase boundary, from the chosen tone set
+ * - Optional continuous tone whose pitch follows the sphere's fill level
+ * - Silence while paused and after the session ends
+ */
+import React, { useEffect } from 'react';
+import { useBreathingStore } from '../store/breathingStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { sessionEngine } from '../lib/sessionEngine';
+import { getFillLevel } from '../lib/breathingPhases';
+import { audioCuePlayer } from '../lib/audioCues';
+
+/**
+ * AudioCues component that drives the audio cue player from the session engine
+ * @returns {null} Nothing is rendered
+ */
+export const AudioCues: React.FC = () => {
+  const { isBreathing, isPaused } = useBreathingStore();
+  const audio = useSettingsStore(state => state.audio);
+
+  // Play cues at phase changes and follow the breath with the continuous tone
+  useEffect(() => {
+    if (!audio.enabled) return;
+
+    return sessionEngine.subscribe(({ type, progress }) => {
+      if (type === 'phase') {
+        audioCuePlayer.playCue(progress.phase, audio);
+      } else if (type === 'progress' && audio.continuousTone) {
+        audioCuePlayer.setContinuousLevel(
+          getFillLevel(progress.phases, progress.phaseIndex, progress.phaseProgress),
+          audio
+        );
+      } else if (type === 'complete') {
+        audioCuePlayer.stopContinuous();
+      }
+    });
+  }, [audio]);
+
+  // The engine stops ticking while paused or stopped, so fade the tone out here
+  useEffect(() => {
+    if (!isBreathing || isPaused || !audio.enabled || !audio.continuousTone) {
+      audioCuePlayer.stopContinuous();
+    }
+  }, [isBreathing, isPaused, audio.enabled, audio.continuousTone]);
+
+  return null;
+};
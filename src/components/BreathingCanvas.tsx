@@ -51,6 +51,7 @@ export const BreathingCanvas: React.FC = () => {
     <Canvas 
       camera={SCENE_CONFIG.camera}
       className="absolute inset-0"
+      aria-hidden="true"
     >
       <color attach="background" args={[theme.background]} />
       <fog 
@@ -0,0 +1,114 @@
+/**
+ * BreathingRing component that guides the breath with a calm 2D ring.
+ * Used instead of the 3D sphere when reduced motion is preferred.
+ * Features:
+ * - Progress arc that fills over each phase
+ * - Inner disc that grows and shrinks with the lung fill level, without distortion
+ * - Current phase name in the center
+ * - Follows the shared session engine's phase progress
+ * - Frozen while the session is paused
+ * - Eases back to rest over the cool-down after a session
+ */
+import React, { useEffect, useState } from 'react';
+import { useBreathingStore } from '../store/breathingStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { getFillLevel, PHASE_LABELS } from '../lib/breathingPhases';
+import { sessionEngine } from '../lib/sessionEngine';
+
+/**
+ * Geometry of the ring in SVG units
+ * - disc: Radius of the inner disc at an empty and a full breath
+ */
+const RING_CONFIG = {
+  size: 200,
+  radius: 88,
+  stroke: 6,
+  disc: [28, 76] as [number, number],
+  styles: {
+    container: "absolute inset-0 flex items-center justify-center pointer-events-none",
+    svg: "w-64 h-64 md:w-96 md:h-96",
+    label: "text-sm font-medium"
+  }
+} as const;
+
+const CIRCUMFERENCE = 2 * Math.PI * RING_CONFIG.radius;
+
+/**
+ * BreathingRing component that shows the phase progress as a ring
+ * @returns {JSX.Element} The rendered ring
+ */
+export const BreathingRing: React.FC = () => {
+  const { isBreathing, isCoolingDown, currentPhase, theme } = useBreathingStore();
+  const coolDown = useSettingsStore(state => state.stages.coolDown);
+  const [progress, setProgress] = useState({ phase: 0, fill: 0 });
+
+  // Follow the engine's ticks; the ring stays where it is while paused
+  useEffect(() => {
+    if (!isBreathing) {
+      setProgress({ phase: 0, fill: 0 });
+      return;
+    }
+
+    return sessionEngine.subscribe(({ type, progress }) => {
+      if (type !== 'progress') return;
+      setProgress({
+        phase: progress.phaseProgress,
+        fill: getFillLevel(progress.phases, progress.phaseIndex, progress.phaseProgress)
+      });
+    });
+  }, [isBreathing]);
+
+  const [minDisc, maxDisc] = RING_CONFIG.disc;
+  const center = RING_CONFIG.size / 2;
+
+  return (
+    <div className={RING_CONFIG.styles.container} aria-hidden="true">
+      <svg viewBox={`0 0 ${RING_CONFIG.size} ${RING_CONFIG.size}`} className={RING_CONFIG.styles.svg}>
+        <circle
+          cx={center}
+          cy={center}
+          r={maxDisc}
+          fill={`${theme.secondary}80`}
+          style={{
+            transform: `scale(${(minDisc + (maxDisc - minDisc) * progress.fill) / maxDisc})`,
+            transformBox: 'fill-box',
+            transformOrigin: 'center',
+            transition: isCoolingDown ? `transform ${coolDown}s ease-in-out` : 'none'
+          }}
+        />
+        <circle
+          cx={center}
+          cy={center}
+          r={RING_CONFIG.radius}
+          fill="none"
+          stroke={`${theme.primary}30`}
+          strokeWidth={RING_CONFIG.stroke}
+        />
+        <circle
+          cx={center}
+          cy={center}
+          r={RING_CONFIG.radius}
+          fill="none"
+          stroke={theme.primary}
+          strokeWidth={RING_CONFIG.stroke}
+          strokeLinecap="round"
+          strokeDasharray={CIRCUMFERENCE}
+          strokeDashoffset={CIRCUMFERENCE * (1 - progress.phase)}
+          transform={`rotate(-90 ${center} ${center})`}
+        />
+        {isBreathing && currentPhase !== 'rest' && (
+          <text
+            x={center}
+            y={center}
+            textAnchor="middle"
+            dominantBaseline="middle"
+            className={RING_CONFIG.styles.label}
+            fill={theme.primary}
+          >
+            {PHASE_LABELS[currentPhase]}
+          </text>
+        )}
+      </svg>
+    </div>
+  );
+};
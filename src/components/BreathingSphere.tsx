@@ -4,8 +4,8 @@
  * - Smooth expansion/contraction based on breathing phases
  * - Mobile-responsive scaling (max 1.5x on mobile, 2x on desktop)
  * - Dual-layer sphere with distortion and wobble effects
- * - Automatic phase transitions
- * - Smooth reset animation
+ * - Follows the shared session engine's phase progress
+ * - Smooth reset animation, slowed to the cool-down length after a session
  * 
  * @component
  * @returns {JSX.Element} The rendered breathing sphere
@@ -14,6 +14,9 @@ import React, { useRef, useEffect, useState } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Sphere, MeshDistortMaterial, MeshWobbleMaterial } from '@react-three/drei';
 import { useBreathingStore } from '../store/breathingStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { getFillLevel } from '../lib/breathingPhases';
+import { sessionEngine } from '../lib/sessionEngine';
 import * as THREE from 'three';
 
 /**
@@ -53,12 +56,18 @@ const SPHERE_CONFIG = {
   }
 } as const;
 
+/**
+ * Seconds the sphere takes to return to rest when there is no cool-down
+ */
+const RESET_DURATION = 0.5;
+
 /**
  * BreathingSphere component that renders an animated sphere for breathing exercises
  * Features:
  * - Smooth expansion/contraction based on breathing phases
- * - Automatic phase transitions (inhale, hold, exhale)
- * - Smooth reset animation when breathing stops
+ * - Scale driven by the session engine's phase progress
+ * - Smooth reset animation when breathing stops, lasting the whole cool-down if one is set
+ * - Frozen at its current scale while the session is paused
  * - Continuous rotation of outer sphere
  * - Responsive scale limits for mobile screens
  * 
@@ -67,19 +76,14 @@ const SPHERE_CONFIG = {
 export const BreathingSphere: React.FC = () => {
   const sphereRef = useRef<THREE.Mesh>(null);
   const outerSphereRef = useRef<THREE.Mesh>(null);
-  const startTime = useRef<number>(0);
   const isResetting = useRef(false);
   const resetStartTime = useRef(0);
+  const resetFrom = useRef(1);
+  const resetDuration = useRef<number>(RESET_DURATION);
   const [isMobile, setIsMobile] = useState(false);
 
-  const {
-    inhaleTime,
-    holdTime,
-    exhaleTime,
-    isBreathing,
-    theme,
-    setCurrentPhase,
-  } = useBreathingStore();
+  const { isBreathing, isPaused, isCoolingDown, theme } = useBreathingStore();
+  const coolDown = useSettingsStore(state => state.stages.coolDown);
 
   // Check if we're on mobile
   useEffect(() => {
@@ -92,19 +96,20 @@ export const BreathingSphere: React.FC = () => {
     return () => window.removeEventListener('resize', checkMobile);
   }, []);
 
-  const totalCycleTime = inhaleTime + holdTime + exhaleTime;
   const scale = useRef(1);
 
-  // Reset startTime when breathing starts and initiate smooth reset when breathing stops
+  // Cancel any reset when breathing starts and initiate smooth reset when breathing stops.
+  // Ending or skipping the cool-down restarts a short reset from wherever the sphere is.
   useEffect(() => {
     if (isBreathing) {
-      startTime.current = Date.now();
       isResetting.current = false;
     } else if (sphereRef.current && outerSphereRef.current) {
       isResetting.current = true;
       resetStartTime.current = Date.now();
+      resetFrom.current = scale.current;
+      resetDuration.current = isCoolingDown ? coolDown : RESET_DURATION;
     }
-  }, [isBreathing]);
+  }, [isBreathing, isCoolingDown, coolDown]);
 
   useFrame((_, delta) => {
     if (!sphereRef.current || !outerSphereRef.current) return;
@@ -112,10 +117,9 @@ export const BreathingSphere: React.FC = () => {
     if (isResetting.current) {
       // Smooth reset animation
       const resetElapsed = (Date.now() - resetStartTime.current) / 1000;
-      const resetDuration = 0.5;
-      const resetProgress = Math.min(resetElapsed / resetDuration, 1);
+      const resetProgress = Math.min(resetElapsed / resetDuration.current, 1);
       
-      scale.current = THREE.MathUtils.lerp(scale.current, 1, resetProgress);
+      scale.current = THREE.MathUtils.lerp(resetFrom.current, 1, THREE.MathUtils.smoothstep(resetProgress, 0, 1));
       
       sphereRef.current.scale.set(scale.current, scale.current, scale.current);
       outerSphereRef.current.scale.set(
@@ -130,25 +134,11 @@ export const BreathingSphere: React.FC = () => {
       return;
     }
 
-    if (!isBreathing) return;
+    const progress = isBreathing ? sessionEngine.getProgress() : null;
+    if (!progress) return;
 
-    const elapsedTime = (Date.now() - startTime.current) / 1000;
-    const time = elapsedTime % totalCycleTime;
-    
-    // Calculate scale based on breathing phase with mobile limit
-    let targetScale = 1;
-    if (time < inhaleTime) {
-      setCurrentPhase('inhale');
-      const progress = time / inhaleTime;
-      targetScale = 1 + progress;
-    } else if (time < inhaleTime + holdTime) {
-      setCurrentPhase('hold');
-      targetScale = 2;
-    } else {
-      setCurrentPhase('exhale');
-      const progress = (time - (inhaleTime + holdTime)) / exhaleTime;
-      targetScale = 2 - progress;
-    }
+    // Calculate scale from the lung fill level with mobile limit
+    const targetScale = 1 + getFillLevel(progress.phases, progress.phaseIndex, progress.phaseProgress);
 
     // Apply mobile scale limit
     const maxScale = isMobile ? 1.5 : 2; // Limit expansion on mobile
@@ -161,7 +151,9 @@ export const BreathingSphere: React.FC = () => {
       scale.current * SPHERE_CONFIG.outer.scale,
       scale.current * SPHERE_CONFIG.outer.scale
     );
-    outerSphereRef.current.rotation.y += delta * 0.2;
+    if (!isPaused) {
+      outerSphereRef.current.rotation.y += delta * 0.2;
+    }
   });
 
   return (
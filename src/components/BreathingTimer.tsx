@@ -1,60 +1,32 @@
 /**
  * BreathingTimer component that displays the current breathing pattern and timer.
  * Features:
- * - Real-time session duration tracking
+ * - Session duration published by the session engine
  * - Pattern name display
  * - Mobile-responsive positioning
  * - Theme-aware styling
- * - Automatic pattern name detection
+ * - Pattern name from the pattern registry
  * 
  * @component
  * @returns {JSX.Element | null} The rendered timer or null if not breathing
  */
-import React, { useEffect } from 'react';
+import React from 'react';
 import { useBreathingStore } from '../store/breathingStore';
-
-/**
- * List of predefined breathing patterns for pattern name matching
- * Used to display friendly pattern names instead of raw timing values
- * Matches the patterns defined in the Controls component
- */
-const BREATHING_PATTERNS = [
-  {
-    name: 'Calm',
-    inhale: 4,
-    hold: 4,
-    exhale: 6,
-  },
-  {
-    name: 'Focus',
-    inhale: 4,
-    hold: 7,
-    exhale: 8,
-  },
-  {
-    name: 'Balance',
-    inhale: 4,
-    hold: 4,
-    exhale: 4,
-  },
-  {
-    name: 'Deep',
-    inhale: 6,
-    hold: 2,
-    exhale: 7,
-  }
-];
+import { formatProgression } from '../lib/breathingPhases';
+import { getPattern } from '../lib/breathingPatterns';
+import { getRoutineDuration } from '../lib/routines';
 
 /**
  * Styles for the breathing timer display
  * Defines the visual appearance of:
  * - Main container with blur effect and border
  * - Timer display with large font
- * - Pattern name display with smaller font
+ * - Remaining time, cycle progress and pattern name display with smaller font
  */
 const TIMER_STYLES = {
   container: "fixed left-4 bottom-4 md:left-4 md:bottom-4 p-2 rounded-lg transform transition-all duration-300 min-w-[60px] min-h-[40px] flex flex-col items-center justify-center",
   pattern: "text-xs font-medium mb-0.5 leading-none",
+  remaining: "text-xs opacity-70 mt-0.5 mb-1 leading-none",
   timer: "text-lg font-bold leading-none"
 } as const;
 
@@ -62,37 +34,44 @@ const TIMER_STYLES = {
  * BreathingTimer component that displays the current breathing pattern and timer
  * Features:
  * - Real-time session duration tracking
- * - Automatic pattern name detection
+ * - Remaining time for timed sessions and routines
+ * - Cycle progress for cycle-count sessions
+ * - Pattern name from the pattern registry
  * - Theme-aware styling with blur effect
  * - Clean display of minutes and seconds
  * 
  * @returns {JSX.Element | null} The rendered timer or null if not breathing
  */
 export const BreathingTimer: React.FC = () => {
-  const { isBreathing, inhaleTime, holdTime, exhaleTime, theme, elapsedTime, setElapsedTime } = useBreathingStore();
-
-  useEffect(() => {
-    if (!isBreathing) {
-      setElapsedTime(0);
-      return;
-    }
-    const timer = setInterval(() => {
-      setElapsedTime(elapsedTime + 1);
-    }, 1000);
-    return () => clearInterval(timer);
-  }, [isBreathing, setElapsedTime, elapsedTime]);
+  const {
+    isBreathing,
+    isPaused,
+    phases,
+    progression,
+    patternId,
+    customPatterns,
+    theme,
+    elapsedTime,
+    currentCycle,
+    sessionGoal,
+    activeRoutine
+  } = useBreathingStore();
 
   if (!isBreathing) return null;
 
-  // Find the pattern name by matching inhale/hold/exhale
-  const pattern = BREATHING_PATTERNS.find(
-    p => p.inhale === inhaleTime && p.hold === holdTime && p.exhale === exhaleTime
-  );
-  const patternText = pattern ? pattern.name : `${inhaleTime}-${holdTime}-${exhaleTime}`;
+  // Custom patterns are shown by their timings
+  const pattern = getPattern(patternId, customPatterns);
+  const patternText = pattern ? pattern.name : formatProgression(phases, progression);
 
-  const minutes = Math.floor(elapsedTime / 60);
-  const seconds = elapsedTime % 60;
-  const timeText = `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  const timeText = formatTime(elapsedTime);
+  // A routine's segment lengths replace the goal
+  const remainingText = activeRoutine
+    ? `${formatTime(Math.max(0, getRoutineDuration(activeRoutine) - elapsedTime))} left`
+    : sessionGoal.type === 'duration'
+      ? `${formatTime(Math.max(0, sessionGoal.seconds - elapsedTime))} left`
+      : sessionGoal.type === 'cycles'
+        ? `Cycle ${Math.min(currentCycle + 1, sessionGoal.cycles)} / ${sessionGoal.cycles}`
+        : null;
 
   return (
     <div 
@@ -105,7 +84,23 @@ export const BreathingTimer: React.FC = () => {
       }}
     >
       <div className={TIMER_STYLES.timer} style={{ color: theme.primary }}>{timeText}</div>
-      <div className={TIMER_STYLES.pattern} style={{ color: theme.primary }}>{patternText}</div>
+      {remainingText && (
+        <div className={TIMER_STYLES.remaining} style={{ color: theme.primary }}>{remainingText}</div>
+      )}
+      <div className={TIMER_STYLES.pattern} style={{ color: theme.primary }}>
+        {isPaused ? 'Paused' : patternText}
+      </div>
     </div>
   );
-}; 
\ No newline at end of file
+};
+
+/**
+ * Formats a number of seconds as minutes and seconds
+ * @param totalSeconds - The time in whole seconds
+ * @returns {string} The formatted time, e.g. "3:05"
+ */
+const formatTime = (totalSeconds: number): string => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
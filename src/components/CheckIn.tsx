@@ -0,0 +1,213 @@
+/**
+ * CheckIn component that asks how the user feels before and after a session.
+ * Features:
+ * - Stress level from 1 to 10 and a mood choice
+ * - Notes and tags, suggested or typed, after the session
+ * - Afterwards, saving needs only one of the mood, notes or tags
+ * - Skip button, so a check-in never stands in the way of a session
+ * - Theme-aware popup styling
+ */
+import React, { useId, useState } from 'react';
+import { useBreathingStore } from '../store/breathingStore';
+import { MOODS, parseTags, STRESS_SCALE, SUGGESTED_TAGS, type Mood } from '../lib/checkIns';
+
+/**
+ * Styles for the check-in popup
+ */
+const CHECK_IN_STYLES = {
+  overlay: "fixed inset-0 flex items-center justify-center z-50",
+  panel: "w-[90%] md:w-96 max-h-[90vh] overflow-y-auto p-4 md:p-6 rounded-2xl space-y-4",
+  title: "text-lg md:text-xl font-bold",
+  label: "block text-sm font-medium mb-1",
+  scale: "flex justify-between text-xs opacity-70",
+  options: "flex flex-wrap gap-2",
+  option: "px-3 py-1 rounded-full text-xs font-medium transition-all duration-300",
+  input: "w-full p-2 rounded bg-white/10 border text-sm",
+  actions: "flex justify-end gap-2 pt-2",
+  button: "px-4 py-2 rounded-full text-sm font-medium transition-all duration-300 disabled:opacity-50"
+} as const;
+
+/**
+ * Wording of the two check-ins
+ */
+const CHECK_IN_TEXT = {
+  before: { title: 'How are you arriving?', submit: 'Start' },
+  after: { title: 'How do you feel now?', submit: 'Save' }
+} as const;
+
+/**
+ * Props for the CheckIn component
+ * - stage: Whether the check-in comes before or after the session
+ */
+interface CheckInProps {
+  stage: 'before' | 'after';
+}
+
+/**
+ * CheckIn component with the stress, mood and, afterwards, notes and tags fields
+ * @param {CheckInProps} props - Component props
+ * @returns {JSX.Element} The rendered check-in popup
+ */
+export const CheckIn: React.FC<CheckInProps> = ({ stage }) => {
+  const { theme, submitBeforeCheckIn, submitAfterCheckIn } = useBreathingStore();
+  const fieldId = useId();
+  const [stress, setStress] = useState<number>(STRESS_SCALE.initial);
+  const [mood, setMood] = useState<Mood | null>(null);
+  const [notes, setNotes] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [otherTags, setOtherTags] = useState('');
+
+  const tags = parseTags([...selectedTags, otherTags].join(','));
+  const canSubmit = stage === 'before' ? mood !== null : mood !== null || notes.trim() !== '' || tags.length > 0;
+
+  const toggleTag = (tag: string) =>
+    setSelectedTags(tags => (tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag]));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    if (stage === 'before') {
+      if (mood) submitBeforeCheckIn({ stress, mood });
+    } else {
+      submitAfterCheckIn({
+        ...(mood ? { after: { stress, mood } } : {}),
+        notes: notes.trim(),
+        tags
+      });
+    }
+  };
+
+  const handleSkip = () => {
+    if (stage === 'before') {
+      submitBeforeCheckIn(null);
+    } else {
+      submitAfterCheckIn(null);
+    }
+  };
+
+  const textStyle = { color: theme.primary };
+  const fieldStyle = { color: theme.primary, borderColor: `${theme.primary}40` };
+  const optionStyle = (isSelected: boolean) => ({
+    background: isSelected ? `${theme.primary}40` : `${theme.primary}10`,
+    border: `1px solid ${theme.primary}40`,
+    color: theme.primary
+  });
+
+  return (
+    <div className={CHECK_IN_STYLES.overlay} style={{ backdropFilter: 'blur(8px)' }}>
+      <form
+        onSubmit={handleSubmit}
+        className={CHECK_IN_STYLES.panel}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={`${fieldId}-title`}
+        style={{
+          background: `${theme.background}ee`,
+          border: `2px solid ${theme.primary}40`,
+          boxShadow: `0 8px 32px ${theme.primary}40`
+        }}
+      >
+        <h2 id={`${fieldId}-title`} className={CHECK_IN_STYLES.title} style={textStyle}>
+          {CHECK_IN_TEXT[stage].title}
+        </h2>
+
+        <div>
+          <label htmlFor={`${fieldId}-stress`} className={CHECK_IN_STYLES.label} style={textStyle}>
+            Stress: {stress}
+          </label>
+          <input
+            id={`${fieldId}-stress`}
+            type="range"
+            min={STRESS_SCALE.min}
+            max={STRESS_SCALE.max}
+            value={stress}
+            onChange={e => setStress(Number(e.target.value))}
+            className="w-full"
+            style={{ accentColor: theme.primary }}
+          />
+          <div className={CHECK_IN_STYLES.scale} style={textStyle}>
+            <span>{STRESS_SCALE.min} Relaxed</span>
+            <span>{STRESS_SCALE.max} Very stressed</span>
+          </div>
+        </div>
+
+        <div role="radiogroup" aria-label="Mood">
+          <span className={CHECK_IN_STYLES.label} style={textStyle}>Mood</span>
+          <div className={CHECK_IN_STYLES.options}>
+            {(Object.keys(MOODS) as Mood[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={mood === option}
+                onClick={() => setMood(option)}
+                className={CHECK_IN_STYLES.option}
+                style={optionStyle(mood === option)}
+              >
+                {MOODS[option].emoji} {MOODS[option].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {stage === 'after' && (
+          <>
+            <div>
+              <label htmlFor={`${fieldId}-notes`} className={CHECK_IN_STYLES.label} style={textStyle}>
+                Notes
+              </label>
+              <textarea
+                id={`${fieldId}-notes`}
+                value={notes}
+                onChange={e => setNotes(e.target.value)}
+                rows={2}
+                className={CHECK_IN_STYLES.input}
+                style={fieldStyle}
+              />
+            </div>
+            <div>
+              <span className={CHECK_IN_STYLES.label} style={textStyle}>Tags</span>
+              <div className={CHECK_IN_STYLES.options} role="group" aria-label="Suggested tags">
+                {SUGGESTED_TAGS.map(tag => (
+                  <button
+                    key={tag}
+                    type="button"
+                    aria-pressed={selectedTags.includes(tag)}
+                    onClick={() => toggleTag(tag)}
+                    className={CHECK_IN_STYLES.option}
+                    style={optionStyle(selectedTags.includes(tag))}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+              <input
+                type="text"
+                value={otherTags}
+                onChange={e => setOtherTags(e.target.value)}
+                placeholder="Other tags, separated by commas"
+                aria-label="Other tags"
+                className={`${CHECK_IN_STYLES.input} mt-2`}
+                style={fieldStyle}
+              />
+            </div>
+          </>
+        )}
+
+        <div className={CHECK_IN_STYLES.actions}>
+          <button type="button" onClick={handleSkip} className={CHECK_IN_STYLES.button} style={optionStyle(false)}>
+            Skip
+          </button>
+          <button
+            type="submit"
+            disabled={!canSubmit}
+            className={CHECK_IN_STYLES.button}
+            style={{ background: theme.primary, color: '#fff', boxShadow: `0 4px 14px ${theme.primary}80` }}
+          >
+            {CHECK_IN_TEXT[stage].submit}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -3,99 +3,18 @@
  * Provides a UI for selecting different breathing patterns and shows the current breathing phase.
  * Features:
  * - Predefined breathing patterns with different themes and timing
+ * - Saved custom patterns listed after the predefined ones
  * - Real-time breathing phase display
  * - Pattern selection with visual feedback
  * - Theme integration with the main visualization
  * - Mobile-responsive dropdown
- * - Disabled state during active sessions
+ * - Disabled state during active sessions and the countdown and settle-in before them
+ * - Screen reader labels and keyboard focus handling
  */
-import React, { useState } from 'react';
+import React, { useId, useRef, useState } from 'react';
 import { useBreathingStore } from '../store/breathingStore';
-import { InitialCountdown } from './InitialCountdown';
-
-/**
- * Type definition for a breathing pattern
- * Defines the structure of breathing patterns including:
- * - Name and description
- * - Timing for inhale, hold, and exhale phases
- * - Associated theme colors
- */
-interface BreathingPattern {
-  name: string;
-  description: string;
-  inhale: number;
-  hold: number;
-  exhale: number;
-  theme: {
-    name: string;
-    primary: string;
-    secondary: string;
-    background: string;
-  };
-}
-
-/**
- * Predefined breathing patterns with their associated themes and timing
- * Each pattern is designed for specific purposes:
- * - Calm: Stress relief and relaxation
- * - Focus: Concentration and mental clarity
- * - Balance: Emotional stability and grounding
- * - Deep: Anxiety relief and deep relaxation
- */
-const BREATHING_PATTERNS: BreathingPattern[] = [
-  {
-    name: 'Calm',
-    description: 'Used for stress relief and relaxation',
-    inhale: 4,
-    hold: 4,
-    exhale: 6,
-    theme: {
-      name: 'Ocean',
-      primary: '#64b5f6',
-      secondary: '#80cbc4',
-      background: '#e0f7fa',
-    }
-  },
-  {
-    name: 'Focus',
-    description: 'Used for concentration and mental clarity',
-    inhale: 4,
-    hold: 7,
-    exhale: 8,
-    theme: {
-      name: 'Forest',
-      primary: '#81c784',
-      secondary: '#a5d6a7',
-      background: '#c8e6c9',
-    }
-  },
-  {
-    name: 'Balance',
-    description: 'Used for emotional stability and grounding',
-    inhale: 4,
-    hold: 4,
-    exhale: 4,
-    theme: {
-      name: 'Lavender',
-      primary: '#9575cd',
-      secondary: '#b39ddb',
-      background: '#e1bee7',
-    }
-  },
-  {
-    name: 'Deep',
-    description: 'Used for anxiety relief and deep relaxation',
-    inhale: 6,
-    hold: 2,
-    exhale: 7,
-    theme: {
-      name: 'Sunset',
-      primary: '#ff7043',
-      secondary: '#ffab91',
-      background: '#ffecb3',
-    }
-  }
-];
+import { formatProgression, PHASE_INSTRUCTIONS, PHASE_LABELS } from '../lib/breathingPhases';
+import { BREATHING_PATTERNS, type PatternDefinition } from '../lib/breathingPatterns';
 
 /**
  * Styles for the controls container and pattern buttons
@@ -106,8 +25,9 @@ const BREATHING_PATTERNS: BreathingPattern[] = [
  */
 const CONTAINER_STYLES = {
   base: "fixed md:left-4 md:top-4 p-2 md:p-4 w-[70%] md:w-80 transform transition-all duration-300",
+  sectionLabel: "text-xs font-medium opacity-70 pt-1",
   patternButton: {
-    base: "w-full p-2 md:p-3 rounded-xl transition-all duration-300 transform hover:scale-102",
+    base: "w-full p-2 md:p-3 rounded-xl transition-all duration-300 transform hover:scale-102 focus:outline-none focus-visible:ring-2",
     active: (theme: string) => ({
       background: `${theme}20`,
       border: `2px solid ${theme}`,
@@ -140,29 +60,38 @@ const CONTAINER_STYLES = {
  */
 export const Controls: React.FC = () => {
   const {
-    inhaleTime,
-    holdTime,
-    exhaleTime,
+    phases,
+    progression,
+    patternId,
+    cyclePhases,
     isBreathing,
+    isCountingDown,
+    isSettlingIn,
     currentPhase,
+    currentPhaseIndex,
     theme,
-    setBreathingPattern,
-    setTheme,
+    selectPattern,
+    customPatterns,
   } = useBreathingStore();
 
-  const [showInitialCountdown, setShowInitialCountdown] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
+  const listId = useId();
+  const toggleRef = useRef<HTMLButtonElement>(null);
+  // Patterns can't change once a session is on its way, matching the 1-9 shortcuts
+  const isSessionActive = isBreathing || isCountingDown || isSettlingIn;
 
   /**
    * Handles the selection of a breathing pattern
    * @param pattern - The selected breathing pattern
    */
-  const handlePatternSelect = (pattern: BreathingPattern) => {
-    if (isBreathing) return; // Prevent pattern change during active session
-    setBreathingPattern(pattern.inhale, pattern.hold, pattern.exhale);
-    setTheme(pattern.theme);
-    setShowInitialCountdown(prev => prev);
-    setIsExpanded(false); // Collapse the dropdown after selection on mobile
+  const handlePatternSelect = (pattern: PatternDefinition) => {
+    if (isSessionActive) return;
+    selectPattern(pattern);
+    if (isExpanded) {
+      // Collapse the dropdown after selection on mobile, keeping focus on its toggle
+      setIsExpanded(false);
+      toggleRef.current?.focus();
+    }
   };
 
   /**
@@ -171,12 +100,10 @@ export const Controls: React.FC = () => {
   const renderBreathingPhase = () => {
     if (!isBreathing) return null;
 
-    const phaseText = {
-      inhale: `${inhaleTime}s to inhale`,
-      hold: `${holdTime}s to hold`,
-      exhale: `${exhaleTime}s to exhale`,
-      rest: 'Rest'
-    }[currentPhase];
+    const phaseLabel = currentPhase === 'rest' ? 'Rest' : PHASE_LABELS[currentPhase];
+    const phaseText = currentPhase === 'rest'
+      ? 'Rest'
+      : `${cyclePhases[currentPhaseIndex].duration}s ${PHASE_INSTRUCTIONS[currentPhase]}`;
 
     return (
       <div 
@@ -187,26 +114,67 @@ export const Controls: React.FC = () => {
         }}
       >
         <div className="font-medium text-sm">
-          {currentPhase.charAt(0).toUpperCase() + currentPhase.slice(1)}
+          {phaseLabel}
         </div>
         <div className="text-xs opacity-80">{phaseText}</div>
       </div>
     );
   };
 
-  // Check if current pattern matches any predefined pattern
-  const isCustomPatternActive = !BREATHING_PATTERNS.some(pattern => 
-    pattern.inhale === inhaleTime && 
-    pattern.hold === holdTime && 
-    pattern.exhale === exhaleTime
-  );
+  // Check if a pattern is the selected one
+  const isPatternActive = (pattern: PatternDefinition) => pattern.id === patternId;
 
-  // Find the currently active pattern
-  const activePattern = BREATHING_PATTERNS.find(pattern => 
-    pattern.inhale === inhaleTime && 
-    pattern.hold === holdTime && 
-    pattern.exhale === exhaleTime
-  );
+  // Find the currently active pattern, predefined or saved
+  const activePattern = [...BREATHING_PATTERNS, ...customPatterns].find(isPatternActive);
+
+  /**
+   * Renders a pattern selection button
+   * @param pattern - The predefined or saved custom pattern
+   */
+  const renderPatternButton = (pattern: PatternDefinition) => {
+    const isActive = isPatternActive(pattern);
+
+    return (
+      <button
+        key={pattern.id}
+        onClick={() => handlePatternSelect(pattern)}
+        disabled={isSessionActive}
+        aria-pressed={isActive}
+        className={CONTAINER_STYLES.patternButton.base}
+        style={{
+          ...(isActive
+            ? CONTAINER_STYLES.patternButton.active(pattern.theme.primary)
+            : CONTAINER_STYLES.patternButton.inactive),
+          ...(isSessionActive ? CONTAINER_STYLES.patternButton.disabled : {})
+        }}
+      >
+        <div className="flex justify-between items-center">
+          <div className="text-left">
+            <h3 
+              className="font-semibold mb-0.5 text-sm md:text-base"
+              style={{ color: isActive ? pattern.theme.primary : '#374151' }}
+            >
+              {pattern.name}
+            </h3>
+            <p 
+              className="text-xs opacity-70"
+              style={{ color: isActive ? `${pattern.theme.primary}CC` : '#6B7280' }}
+            >
+              {pattern.description}
+            </p>
+          </div>
+          <div className="text-right">
+            <div 
+              className="text-xs md:text-sm font-medium"
+              style={{ color: isActive ? pattern.theme.primary : '#4B5563' }}
+            >
+              {formatProgression(pattern.phases, pattern.progression)}
+            </div>
+          </div>
+        </div>
+      </button>
+    );
+  };
 
   return (
     <div 
@@ -222,8 +190,11 @@ export const Controls: React.FC = () => {
         {renderBreathingPhase()}
         {!isBreathing && (
           <button
+            ref={toggleRef}
             onClick={() => setIsExpanded(!isExpanded)}
-            className="w-full p-2 rounded-xl flex justify-between items-center"
+            aria-expanded={isExpanded}
+            aria-controls={listId}
+            className="w-full p-2 rounded-xl flex justify-between items-center focus:outline-none focus-visible:ring-2"
             style={{
               background: `${theme.primary}20`,
               border: `2px solid ${theme.primary}`,
@@ -240,9 +211,9 @@ export const Controls: React.FC = () => {
             </div>
             <div className="text-right">
               <div className="text-xs font-medium">
-                {inhaleTime}-{holdTime}-{exhaleTime}
+                {formatProgression(phases, progression)}
               </div>
-              <div className="text-xs mt-0.5">
+              <div className="text-xs mt-0.5" aria-hidden="true">
                 {isExpanded ? '▲' : '▼'}
               </div>
             </div>
@@ -251,56 +222,20 @@ export const Controls: React.FC = () => {
       </div>
 
       {/* Patterns List - Hidden on mobile unless expanded */}
-      <div className={`space-y-3 md:space-y-6 ${isExpanded ? 'block' : 'hidden md:block'}`}>
-        <div className="space-y-2">
-          {BREATHING_PATTERNS.map((pattern) => (
-            <button
-              key={pattern.name}
-              onClick={() => handlePatternSelect(pattern)}
-              className={CONTAINER_STYLES.patternButton.base}
-              style={{
-                ...(theme.primary === pattern.theme.primary && !isCustomPatternActive
-                  ? CONTAINER_STYLES.patternButton.active(pattern.theme.primary)
-                  : CONTAINER_STYLES.patternButton.inactive),
-                ...(isBreathing ? CONTAINER_STYLES.patternButton.disabled : {})
-              }}
-            >
-              <div className="flex justify-between items-center">
-                <div className="text-left">
-                  <h3 
-                    className="font-semibold mb-0.5 text-sm md:text-base"
-                    style={{ color: theme.primary === pattern.theme.primary && !isCustomPatternActive
-                      ? pattern.theme.primary 
-                      : '#374151' }}
-                  >
-                    {pattern.name}
-                  </h3>
-                  <p 
-                    className="text-xs opacity-70"
-                    style={{ color: theme.primary === pattern.theme.primary && !isCustomPatternActive
-                      ? `${pattern.theme.primary}CC`
-                      : '#6B7280' }}
-                  >
-                    {pattern.description}
-                  </p>
-                </div>
-                <div className="text-right">
-                  <div 
-                    className="text-xs md:text-sm font-medium"
-                    style={{ color: theme.primary === pattern.theme.primary && !isCustomPatternActive
-                      ? pattern.theme.primary 
-                      : '#4B5563' }}
-                  >
-                    {pattern.inhale}-{pattern.hold}-{pattern.exhale}
-                  </div>
-                </div>
+      <div id={listId} className={`space-y-3 md:space-y-6 ${isExpanded ? 'block' : 'hidden md:block'}`}>
+        <div role="group" aria-label="Breathing patterns" className="space-y-2">
+          {BREATHING_PATTERNS.map(renderPatternButton)}
+          {customPatterns.length > 0 && (
+            <>
+              <div className={CONTAINER_STYLES.sectionLabel} style={{ color: theme.primary }}>
+                My patterns
               </div>
-            </button>
-          ))}
+              {customPatterns.map(renderPatternButton)}
+            </>
+          )}
         </div>
         {renderBreathingPhase()}
       </div>
-      {showInitialCountdown && <InitialCountdown />}
     </div>
   );
 }; 
\ No newline at end of file
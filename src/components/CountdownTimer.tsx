@@ -1,9 +1,19 @@
 /**
  * CountdownTimer component that displays the remaining time for each breathing phase.
  * Shows a countdown timer and the current breathing phase name.
+ * Phases with fractional durations (e.g. 5.5s) count down in tenths of a second.
+ * Features:
+ * - Counts the seconds left, or the seconds gone with the count-up style
+ * - Optional progress arc that fills over each phase
+ * - Blurred backdrop when shown on its own, clear when shown over the sphere
+ * - Mobile-responsive sizing
  */
 import React, { useEffect, useState } from 'react';
 import { useBreathingStore } from '../store/breathingStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { PHASE_LABELS } from '../lib/breathingPhases';
+import { sessionEngine } from '../lib/sessionEngine';
+import type { CountStyle } from '../lib/display';
 
 /**
  * Configuration for the countdown timer
@@ -13,68 +23,95 @@ const TIMER_CONFIG = {
   styles: {
     container: "fixed inset-0 flex items-center justify-center pointer-events-none",
     content: "text-center transform transition-all duration-300",
-    timer: "text-8xl font-bold mb-4",
-    phase: "text-3xl font-medium",
+    timer: "text-7xl md:text-8xl font-bold mb-2 md:mb-4",
+    phase: "text-2xl md:text-3xl font-medium",
+    arc: "absolute inset-0 w-full h-full -z-10",
+    arcBox: "relative flex flex-col items-center justify-center w-64 h-64 md:w-80 md:h-80",
     blur: {
       backdrop: 'blur(8px)',
       text: 'blur(0.5px)'
     }
+  },
+  arc: {
+    size: 200,
+    radius: 94,
+    stroke: 4
   }
 } as const;
 
-/**
- * Type definition for breathing phases
- */
-type BreathingPhase = 'inhale' | 'hold' | 'exhale' | 'rest';
+const ARC_CIRCUMFERENCE = 2 * Math.PI * TIMER_CONFIG.arc.radius;
 
 /**
  * CountdownTimer component that displays the remaining time for each breathing phase
  * @returns {JSX.Element | null} The rendered countdown timer or null if not breathing
  */
 export const CountdownTimer: React.FC = () => {
-  const { isBreathing, currentPhase, inhaleTime, holdTime, exhaleTime, theme } = useBreathingStore();
-  const [timeLeft, setTimeLeft] = useState<number>(0);
+  const { isBreathing, currentPhase, theme } = useBreathingStore();
+  const { mode, countStyle, progressArc } = useSettingsStore(state => state.display);
+  const [timeLeft, setTimeLeft] = useState<string>('0');
+  const [phaseProgress, setPhaseProgress] = useState(0);
 
   /**
-   * Effect to handle the countdown timer for each breathing phase
+   * Effect to poll the session engine for the time in the current phase
    */
   useEffect(() => {
     if (!isBreathing) {
-      setTimeLeft(0);
+      setTimeLeft('0');
+      setPhaseProgress(0);
       return;
     }
 
-    let interval: number;
-    const startTime = Date.now();
-    const totalTime = getPhaseDuration(currentPhase, inhaleTime, holdTime, exhaleTime);
-
-    interval = window.setInterval(() => {
-      const elapsed = Date.now() - startTime;
-      const remaining = Math.max(0, Math.ceil((totalTime - elapsed) / 1000));
-      setTimeLeft(remaining);
-
-      if (remaining === 0) {
-        clearInterval(interval);
-      }
+    const interval = window.setInterval(() => {
+      const progress = sessionEngine.getProgress();
+      setTimeLeft(progress ? formatPhaseTime(countStyle, progress.phase.duration, progress.phaseRemaining) : '0');
+      setPhaseProgress(progress?.phaseProgress ?? 0);
     }, TIMER_CONFIG.updateInterval);
 
     return () => clearInterval(interval);
-  }, [isBreathing, currentPhase, inhaleTime, holdTime, exhaleTime]);
+  }, [isBreathing, countStyle]);
 
   if (!isBreathing) return null;
 
+  const center = TIMER_CONFIG.arc.size / 2;
+
   return (
     <div 
       className={TIMER_CONFIG.styles.container}
-      style={{ backdropFilter: TIMER_CONFIG.styles.blur.backdrop }}
+      // Over the sphere the backdrop stays clear so the sphere remains visible
+      style={{ backdropFilter: mode === 'countdown' ? TIMER_CONFIG.styles.blur.backdrop : 'none' }}
+      aria-hidden="true"
     >
       <div 
-        className={TIMER_CONFIG.styles.content}
+        className={`${TIMER_CONFIG.styles.content} ${progressArc ? TIMER_CONFIG.styles.arcBox : ''}`}
         style={{ 
           textShadow: `0 0 20px ${theme.primary}40`,
           filter: TIMER_CONFIG.styles.blur.text
         }}
       >
+        {progressArc && (
+          <svg viewBox={`0 0 ${TIMER_CONFIG.arc.size} ${TIMER_CONFIG.arc.size}`} className={TIMER_CONFIG.styles.arc}>
+            <circle
+              cx={center}
+              cy={center}
+              r={TIMER_CONFIG.arc.radius}
+              fill="none"
+              stroke={`${theme.primary}30`}
+              strokeWidth={TIMER_CONFIG.arc.stroke}
+            />
+            <circle
+              cx={center}
+              cy={center}
+              r={TIMER_CONFIG.arc.radius}
+              fill="none"
+              stroke={theme.primary}
+              strokeWidth={TIMER_CONFIG.arc.stroke}
+              strokeLinecap="round"
+              strokeDasharray={ARC_CIRCUMFERENCE}
+              strokeDashoffset={ARC_CIRCUMFERENCE * (1 - phaseProgress)}
+              transform={`rotate(-90 ${center} ${center})`}
+            />
+          </svg>
+        )}
         <div 
           className={TIMER_CONFIG.styles.timer}
           style={{ color: theme.primary }}
@@ -85,7 +122,7 @@ export const CountdownTimer: React.FC = () => {
           className={TIMER_CONFIG.styles.phase}
           style={{ color: theme.primary }}
         >
-          {capitalizeFirstLetter(currentPhase)}
+          {currentPhase === 'rest' ? 'Rest' : PHASE_LABELS[currentPhase]}
         </div>
       </div>
     </div>
@@ -93,36 +130,23 @@ export const CountdownTimer: React.FC = () => {
 };
 
 /**
- * Gets the duration in milliseconds for the current breathing phase
- * @param phase - The current breathing phase
- * @param inhaleTime - Duration of inhale phase in seconds
- * @param holdTime - Duration of hold phase in seconds
- * @param exhaleTime - Duration of exhale phase in seconds
- * @returns {number} The duration in milliseconds
+ * Formats the time in a phase
+ * Whole-second phases count in whole seconds; others show tenths so that
+ * a 5.5s phase starts at 5.5 rather than 6. Counting up runs from 1 to the
+ * phase length for whole-second phases, and from 0.0 otherwise.
+ * @param countStyle - Whether to show the time left or the time gone
+ * @param duration - The phase duration in seconds
+ * @param remaining - Seconds left in the phase
+ * @returns {string} The formatted time
  */
-const getPhaseDuration = (
-  phase: BreathingPhase,
-  inhaleTime: number,
-  holdTime: number,
-  exhaleTime: number
-): number => {
-  switch (phase) {
-    case 'inhale':
-      return inhaleTime * 1000;
-    case 'hold':
-      return holdTime * 1000;
-    case 'exhale':
-      return exhaleTime * 1000;
-    case 'rest':
-      return 0;
+const formatPhaseTime = (countStyle: CountStyle, duration: number, remaining: number): string => {
+  if (countStyle === 'down') {
+    return Number.isInteger(duration)
+      ? String(Math.ceil(remaining))
+      : (Math.ceil(remaining * 10) / 10).toFixed(1);
   }
+  const elapsed = duration - remaining;
+  return Number.isInteger(duration)
+    ? String(Math.min(duration, Math.floor(elapsed) + 1))
+    : (Math.floor(elapsed * 10) / 10).toFixed(1);
 };
-
-/**
- * Capitalizes the first letter of a string
- * @param str - The string to capitalize
- * @returns {string} The capitalized string
- */
-const capitalizeFirstLetter = (str: string): string => {
-  return str.charAt(0).toUpperCase() + str.slice(1);
-}; 
\ No newline at end of file
@@ -1,15 +1,40 @@
 /**
- * CustomBreathing component that allows users to create and apply custom breathing patterns.
+ * CustomBreathing component that manages the library of saved custom breathing patterns.
  * Features:
- * - Customizable inhale, hold, and exhale durations
+ * - Customizable inhale, hold, exhale, and hold-after-exhale durations to 0.1s
+ * - Optional second inhale that tops up a partial first inhale, as in the physiological sigh
+ * - Configurable upper limits with warnings for long timings
+ * - Balanced pattern generator from a breaths per minute rate
+ * - Name, description and theme for each saved pattern
+ * - Create, edit, duplicate and delete saved patterns
+ * - Patterns persist across reloads and appear in the pattern list
  * - Collapsible form interface
- * - Input validation and constraints
+ * - Input validation and constraints, applied once a typed value is confirmed
  * - Theme-aware styling
  * - Disabled state during active sessions
+ * - Screen reader labels, and focus moved into and back out of the form
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useId, useRef, useState } from 'react';
 import { useBreathingStore } from '../store/breathingStore';
+import {
+  createPhases,
+  DURATION_STEP,
+  formatPattern,
+  roundDuration,
+  type BreathingPhase,
+} from '../lib/breathingPhases';
+import { PATTERN_THEMES } from '../lib/breathingPatterns';
+import type { CustomPattern } from '../lib/customPatterns';
+import {
+  BREATHS_PER_MINUTE_LIMITS,
+  clampTiming,
+  DEFAULT_TIMING_LIMITS,
+  getBalancedTimings,
+  getTimingWarnings,
+  MAX_TIMING_LIMITS,
+  MIN_BREATH_DURATION,
+} from '../lib/timingLimits';
 
 /**
  * Styles for the custom breathing interface
@@ -17,204 +42,689 @@ import { useBreathingStore } from '../store/breathingStore';
  * - Main container with blur effect
  * - Form layout and spacing
  * - Input fields and labels
- * - Checkbox and button styles
+ * - Timing warnings
+ * - Saved pattern rows and buttons
  * - Collapsed state appearance
  */
 const CUSTOM_STYLES = {
-  container: "md:fixed md:left-8 md:top-[calc(4rem+24rem)] p-3 w-48 md:w-48 transform transition-all duration-300",
+  container: "md:fixed md:left-8 md:top-[calc(4rem+24rem)] p-3 w-56 md:w-56 transform transition-all duration-300",
   form: "space-y-2",
   inputGroup: "flex items-center justify-between",
-  input: "w-12 p-1 rounded bg-white/10 border border-white/20 text-sm text-center",
+  input: "w-14 p-1 rounded bg-white/10 border border-white/20 text-sm text-center",
+  warning: "text-xs leading-snug",
+  textInput: "w-full p-1 rounded bg-white/10 border border-white/20 text-xs",
+  select: "p-1 rounded bg-white/10 border border-white/20 text-xs",
   label: "text-xs font-medium",
-  checkbox: "w-3 h-3 rounded border border-current",
   button: "w-full p-1.5 rounded text-xs font-medium transition-all duration-300",
-  collapsed: "flex items-center justify-between cursor-pointer"
+  rowButton: "text-xs opacity-60 hover:opacity-100 transition-opacity",
+  collapsed: "w-full flex items-center justify-between cursor-pointer focus:outline-none focus-visible:ring-2"
 } as const;
 
 /**
- * CustomBreathing component that allows users to create and apply custom breathing patterns
+ * Values edited in the pattern form
+ * - id: ID of the saved pattern being edited, null for a new pattern
+ * - topUp: Length of a second inhale, 0 for none
+ * - inhaleLevel: Lung fill in percent reached by the first inhale when it is topped up
+ */
+interface PatternDraft {
+  id: string | null;
+  name: string;
+  description: string;
+  themeName: string;
+  inhale: number;
+  topUp: number;
+  inhaleLevel: number;
+  hold: number;
+  exhale: number;
+  holdEmpty: number;
+}
+
+/**
+ * Default and limits in percent for the fill reached by a topped-up first inhale
+ */
+const INHALE_LEVEL_LIMITS = {
+  default: 80,
+  min: 10,
+  max: 95,
+  step: 5
+} as const;
+
+/**
+ * Empty form for a new pattern
+ */
+const NEW_DRAFT: PatternDraft = {
+  id: null,
+  name: '',
+  description: '',
+  themeName: PATTERN_THEMES[PATTERN_THEMES.length - 1].name,
+  inhale: 4,
+  topUp: 0,
+  inhaleLevel: INHALE_LEVEL_LIMITS.default,
+  hold: 4,
+  exhale: 6,
+  holdEmpty: 0
+};
+
+/**
+ * Gets the duration of the first phase of a type, or 0 if the pattern has none
+ * @param phases - The breathing pattern
+ * @param type - The phase type
+ */
+const getPhaseDuration = (phases: BreathingPhase[], type: BreathingPhase['type']) =>
+  phases.find(phase => phase.type === type)?.duration ?? 0;
+
+/**
+ * Creates a form draft from a saved pattern
+ * @param pattern - The saved pattern
+ * @returns {PatternDraft} The draft with the pattern's values
+ */
+const toDraft = (pattern: CustomPattern): PatternDraft => {
+  const [firstInhale, secondInhale] = pattern.phases.filter(phase => phase.type === 'inhale');
+  return {
+    id: pattern.id,
+    name: pattern.name,
+    description: pattern.description,
+    themeName: pattern.theme.name,
+    inhale: firstInhale?.duration ?? 0,
+    topUp: secondInhale?.duration ?? 0,
+    inhaleLevel: secondInhale && firstInhale.level !== undefined
+      ? Math.round(firstInhale.level * 100)
+      : INHALE_LEVEL_LIMITS.default,
+    hold: getPhaseDuration(pattern.phases, 'hold-full'),
+    exhale: getPhaseDuration(pattern.phases, 'exhale'),
+    holdEmpty: getPhaseDuration(pattern.phases, 'hold-empty')
+  };
+};
+
+/**
+ * Builds the phases of a draft, with the first inhale split in two when it is topped up
+ * @param draft - The form values, already clamped
+ * @returns {BreathingPhase[]} The ordered list of phases
+ */
+const createDraftPhases = ({ inhale, topUp, inhaleLevel, hold, exhale, holdEmpty }: PatternDraft): BreathingPhase[] => {
+  const phases = createPhases(inhale, hold, exhale, holdEmpty);
+  if (topUp <= 0) return phases;
+  const [, ...rest] = phases;
+  return [
+    { type: 'inhale', duration: inhale, level: inhaleLevel / 100 },
+    { type: 'inhale', duration: topUp },
+    ...rest
+  ];
+};
+
+/**
+ * Timing fields shown in the form
+ * - label: Input label
+ * - name: Name used in warnings
+ * - isOptional: 0 leaves the phase out, whether or not it is a hold
+ */
+const TIMING_FIELDS = [
+  { key: 'inhale', label: 'In:', name: 'Inhale', isHold: false, isOptional: false },
+  { key: 'topUp', label: 'Top-up in:', name: 'Top-up inhale', isHold: false, isOptional: true },
+  { key: 'hold', label: 'Hold:', name: 'Hold', isHold: true, isOptional: true },
+  { key: 'exhale', label: 'Out:', name: 'Exhale', isHold: false, isOptional: false },
+  { key: 'holdEmpty', label: 'Hold out:', name: 'Hold out', isHold: true, isOptional: true }
+] as const;
+
+type TimingField = typeof TIMING_FIELDS[number];
+
+/**
+ * Default rate for the breaths per minute generator (coherent breathing)
+ */
+const DEFAULT_BREATHS_PER_MINUTE = 5.5;
+
+/**
+ * CustomBreathing component that manages the library of saved custom breathing patterns
  * Features:
- * - Customizable breathing pattern creation
- * - Input validation (1-10 seconds for inhale/exhale, 0-10 for hold)
+ * - Saved pattern list with apply, edit, duplicate and delete actions
+ * - Pattern form with name, description, theme and timings
+ * - Decimal timings (0.5s up to the breath limit for inhale/exhale, 0s up to the hold limit for holds)
+ * - Adjustable limits and warnings for clamped or unusually long timings
+ * - Balanced pattern generator from breaths per minute
  * - Collapsible form interface
  * - Theme-aware styling with blur effects
  * - Disabled state during active sessions
- * - Neutral theme when custom pattern is active
- * 
+ *
  * @returns {JSX.Element} The rendered custom breathing interface
  */
 export const CustomBreathing: React.FC = () => {
-  const { theme, setBreathingPattern, isBreathing, inhaleTime, holdTime, exhaleTime, setTheme } = useBreathingStore();
-  const [isCustomActive, setIsCustomActive] = useState(false);
+  const {
+    theme,
+    isBreathing,
+    patternId,
+    customPatterns,
+    selectPattern,
+    saveCustomPattern,
+    deleteCustomPattern,
+    timingLimits,
+    setTimingLimits
+  } = useBreathingStore();
+  // The library is mounted in both the mobile and desktop layouts
+  const fieldId = useId();
   const [isExpanded, setIsExpanded] = useState(false);
-  const [customPattern, setCustomPattern] = useState({
-    inhale: 4,
-    hold: 4,
-    exhale: 6
-  });
+  const [draft, setDraft] = useState<PatternDraft | null>(null);
+  const [showLimits, setShowLimits] = useState(false);
+  const [breathsPerMinute, setBreathsPerMinute] = useState(DEFAULT_BREATHS_PER_MINUTE);
+  // Text being typed in the number fields, keyed by field, so a field can be cleared
+  // and retyped before its value is clamped
+  const [fieldTexts, setFieldTexts] = useState<Record<string, string | undefined>>({});
+  const nameInputRef = useRef<HTMLInputElement>(null);
+  const newButtonRef = useRef<HTMLButtonElement>(null);
+  const wasEditing = useRef(false);
+  const isEditing = draft !== null;
+
+  // Move focus to the name field when the form opens, and back to the list when it closes
+  useEffect(() => {
+    if (isEditing) {
+      nameInputRef.current?.focus();
+    } else if (wasEditing.current) {
+      newButtonRef.current?.focus();
+    }
+    wasEditing.current = isEditing;
+  }, [isEditing]);
+
+  const activePattern = customPatterns.find(pattern => pattern.id === patternId);
+
+  /**
+   * Selects a saved pattern and applies its theme
+   * @param pattern - The saved pattern
+   */
+  const applyPattern = (pattern: CustomPattern) => {
+    if (isBreathing) return;
+    selectPattern(pattern);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (isBreathing) return;
-    
+    if (isBreathing || !draft) return;
+
     // Validate inputs
-    const inhale = Math.max(1, Math.min(10, customPattern.inhale));
-    const hold = Math.max(0, Math.min(10, customPattern.hold));
-    const exhale = Math.max(1, Math.min(10, customPattern.exhale));
-    
-    setBreathingPattern(inhale, hold, exhale);
-    setIsExpanded(false); // Collapse the form after applying
+    const phases = createDraftPhases({
+      ...draft,
+      inhale: clampTiming(draft.inhale, false, timingLimits),
+      topUp: draft.topUp > 0 ? clampTiming(draft.topUp, false, timingLimits) : 0,
+      inhaleLevel: Math.max(INHALE_LEVEL_LIMITS.min, Math.min(INHALE_LEVEL_LIMITS.max, draft.inhaleLevel)),
+      hold: clampTiming(draft.hold, true, timingLimits),
+      exhale: clampTiming(draft.exhale, false, timingLimits),
+      holdEmpty: clampTiming(draft.holdEmpty, true, timingLimits)
+    });
+    const existing = customPatterns.find(pattern => pattern.id === draft.id);
+
+    const pattern: CustomPattern = {
+      id: existing?.id ?? `custom-${crypto.randomUUID()}`,
+      name: draft.name.trim() || `Custom ${formatPattern(phases)}`,
+      description: draft.description.trim() || 'Custom breathing pattern',
+      phases,
+      theme: PATTERN_THEMES.find(t => t.name === draft.themeName) ?? PATTERN_THEMES[0],
+      createdAt: existing?.createdAt ?? new Date().toISOString()
+    };
+
+    saveCustomPattern(pattern);
+    applyPattern(pattern);
+    setDraft(null);
   };
 
-  const handleCheckboxChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    e.stopPropagation();
-    setIsCustomActive(e.target.checked);
-    if (e.target.checked) {
-      // Set a neutral theme when custom is active
-      setTheme({
-        primary: '#6B7280',
-        secondary: '#9CA3AF',
-        background: '#F3F4F6'
-      });
+  /**
+   * Fills the timings with a balanced pattern for the chosen breathing rate
+   */
+  const handleGenerate = () => {
+    if (!draft) return;
+    const rate = Math.max(
+      BREATHS_PER_MINUTE_LIMITS.min,
+      Math.min(BREATHS_PER_MINUTE_LIMITS.max, breathsPerMinute)
+    );
+    setDraft({ ...draft, ...getBalancedTimings(rate), topUp: 0, hold: 0, holdEmpty: 0 });
+  };
+
+  /**
+   * Opens the form with fresh fields
+   * @param next - The values to edit
+   */
+  const openDraft = (next: PatternDraft) => {
+    setFieldTexts({});
+    setDraft(next);
+  };
+
+  const setFieldText = (field: string, text: string | undefined) =>
+    setFieldTexts(texts => ({ ...texts, [field]: text }));
+
+  /**
+   * Confirms a typed value: clamps and applies it, then shows the applied value again
+   * @param field - The field's key
+   * @param apply - Applies the typed text
+   */
+  const commitField = (field: string, apply: (text: string) => void) => {
+    const text = fieldTexts[field];
+    if (text === undefined) return;
+    apply(text);
+    setFieldText(field, undefined);
+  };
+
+  // Enter confirms a typed value the same way as leaving the field, without submitting the form
+  const handleNumberKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    e.currentTarget.blur();
+  };
+
+  /**
+   * Updates a timing as it is typed. Once confirmed, it is raised to its minimum;
+   * timings above the limits are warned about and clamped when the pattern is saved.
+   * @param key - The timing to change
+   * @param text - The typed value
+   */
+  const handleTimingChange = (key: TimingField['key'], text: string) => {
+    if (!draft) return;
+    setFieldText(key, text);
+    const seconds = parseFloat(text);
+    if (Number.isFinite(seconds)) setDraft({ ...draft, [key]: roundDuration(seconds) });
+  };
+
+  const handleTimingBlur = ({ key, isOptional }: TimingField) =>
+    commitField(key, text => setDraft(current => current && {
+      ...current,
+      [key]: roundDuration(Math.max(isOptional ? 0 : MIN_BREATH_DURATION, parseFloat(text) || 0))
+    }));
+
+  /**
+   * Updates the fill of a topped-up first inhale, applying values within its limits as they are typed
+   * @param text - The typed percentage
+   */
+  const handleInhaleLevelChange = (text: string) => {
+    if (!draft) return;
+    setFieldText('inhaleLevel', text);
+    const level = Number(text);
+    if (Number.isInteger(level) && level >= INHALE_LEVEL_LIMITS.min && level <= INHALE_LEVEL_LIMITS.max) {
+      setDraft({ ...draft, inhaleLevel: level });
     }
   };
 
-  const isCustomPatternActive = 
-    inhaleTime === customPattern.inhale &&
-    holdTime === customPattern.hold &&
-    exhaleTime === customPattern.exhale;
+  const handleInhaleLevelBlur = () =>
+    commitField('inhaleLevel', text => setDraft(current => current && {
+      ...current,
+      inhaleLevel: Math.max(
+        INHALE_LEVEL_LIMITS.min,
+        Math.min(INHALE_LEVEL_LIMITS.max, parseInt(text) || INHALE_LEVEL_LIMITS.default)
+      )
+    }));
+
+  /**
+   * Updates the breathing rate, applying values within its limits as they are typed
+   * @param text - The typed rate
+   */
+  const handleBreathsPerMinuteChange = (text: string) => {
+    setFieldText('bpm', text);
+    const rate = Number(text);
+    if (text !== '' && rate >= BREATHS_PER_MINUTE_LIMITS.min && rate <= BREATHS_PER_MINUTE_LIMITS.max) {
+      setBreathsPerMinute(rate);
+    }
+  };
+
+  const handleBreathsPerMinuteBlur = () =>
+    commitField('bpm', text => setBreathsPerMinute(Math.max(
+      BREATHS_PER_MINUTE_LIMITS.min,
+      Math.min(BREATHS_PER_MINUTE_LIMITS.max, parseFloat(text) || DEFAULT_BREATHS_PER_MINUTE)
+    )));
+
+  /**
+   * Updates one of the upper limits, applying values between its default and maximum as they are typed
+   * @param key - The limit to change
+   * @param text - The typed value
+   */
+  const handleLimitChange = (key: keyof typeof timingLimits, text: string) => {
+    setFieldText(`limit-${key}`, text);
+    const limit = Number(text);
+    if (Number.isInteger(limit) && limit >= DEFAULT_TIMING_LIMITS[key] && limit <= MAX_TIMING_LIMITS[key]) {
+      setTimingLimits({ ...timingLimits, [key]: limit });
+    }
+  };
+
+  /**
+   * Confirms one of the upper limits, keeping it between its default and maximum
+   * @param key - The limit to confirm
+   */
+  const handleLimitBlur = (key: keyof typeof timingLimits) =>
+    commitField(`limit-${key}`, text => setTimingLimits({
+      ...timingLimits,
+      [key]: Math.max(
+        DEFAULT_TIMING_LIMITS[key],
+        Math.min(MAX_TIMING_LIMITS[key], parseInt(text) || DEFAULT_TIMING_LIMITS[key])
+      )
+    }));
+
+  const warnings = draft
+    ? getTimingWarnings(
+        TIMING_FIELDS.map(field => ({ label: field.name, seconds: draft[field.key], isHold: field.isHold })),
+        timingLimits
+      )
+    : [];
+
+  const handleDuplicate = (pattern: CustomPattern) => {
+    const copy: CustomPattern = {
+      ...pattern,
+      id: `custom-${crypto.randomUUID()}`,
+      name: `${pattern.name} (copy)`,
+      createdAt: new Date().toISOString()
+    };
+    saveCustomPattern(copy);
+  };
+
+  const handleDelete = (pattern: CustomPattern) => {
+    if (!window.confirm(`Delete "${pattern.name}"?`)) return;
+    deleteCustomPattern(pattern.id);
+    if (draft?.id === pattern.id) setDraft(null);
+  };
+
+  const fieldStyle = {
+    color: theme.primary,
+    borderColor: `${theme.primary}40`,
+    background: `${theme.primary}10`
+  };
 
   return (
-    <div 
+    <div
       className={CUSTOM_STYLES.container}
-      style={{ 
+      style={{
         background: `${theme.background}99`,
         backdropFilter: 'blur(8px)',
         border: `1px solid ${theme.primary}40`,
         borderRadius: '0.75rem'
       }}
-      
+
     >
-      {!isExpanded ? (
-        <div 
-          className={CUSTOM_STYLES.collapsed}
-          onClick={() => !isBreathing && setIsExpanded(true)}
-          style={{
-            opacity: isBreathing ? 0.5 : 1,
-            pointerEvents: isBreathing ? 'none' : 'auto'
-          }}
-        >
-          <label className={CUSTOM_STYLES.label} style={{ color: theme.primary }}>
-            Custom {isCustomPatternActive ? `(${customPattern.inhale}-${customPattern.hold}-${customPattern.exhale})` : ''}
-          </label>
-          <input
-            type="checkbox"
-            checked={isCustomActive}
-            onChange={handleCheckboxChange}
-            className={CUSTOM_STYLES.checkbox}
-            style={{ color: theme.primary }}
-          />
-        </div>
-      ) : (
-        <form onSubmit={handleSubmit} className={CUSTOM_STYLES.form}>
-          <div className="flex items-center justify-between mb-1">
-            <label className={CUSTOM_STYLES.label} style={{ color: theme.primary }}>
-              Custom
-            </label>
-            <input
-              type="checkbox"
-              checked={isCustomActive}
-              onChange={handleCheckboxChange}
-              className={CUSTOM_STYLES.checkbox}
-              style={{ color: theme.primary }}
-            />
-          </div>
-          
-          {isCustomActive && (
-            <>
-              <div className={CUSTOM_STYLES.inputGroup}>
-                <label className={CUSTOM_STYLES.label} style={{ color: theme.primary }}>
-                  In:
-                </label>
-                <input
-                  type="number"
-                  min="1"
-                  max="10"
-                  value={customPattern.inhale}
-                  onChange={(e) => setCustomPattern(prev => ({
-                    ...prev,
-                    inhale: parseInt(e.target.value) || 1
-                  }))}
-                  className={CUSTOM_STYLES.input}
-                  style={{ 
-                    color: theme.primary,
-                    borderColor: `${theme.primary}40`,
-                    background: `${theme.primary}10`
+      <button
+        type="button"
+        className={CUSTOM_STYLES.collapsed}
+        onClick={() => setIsExpanded(!isExpanded)}
+        disabled={isBreathing}
+        aria-expanded={isExpanded && !isBreathing}
+        aria-controls={`${fieldId}-library`}
+        style={{
+          opacity: isBreathing ? 0.5 : 1,
+          pointerEvents: isBreathing ? 'none' : 'auto'
+        }}
+      >
+        <span className={CUSTOM_STYLES.label} style={{ color: theme.primary }}>
+          Custom {activePattern ? `(${activePattern.name})` : ''}
+        </span>
+        <span className="text-xs" style={{ color: theme.primary }} aria-hidden="true">
+          {isExpanded ? '▲' : '▼'}
+        </span>
+      </button>
+
+      {isExpanded && !isBreathing && (
+        <div id={`${fieldId}-library`} className="mt-2 space-y-2">
+          {/* Saved Patterns */}
+          {customPatterns.length > 0 && !draft && (
+            <ul className="space-y-1" aria-label="Saved patterns">
+              {customPatterns.map(pattern => (
+                <li
+                  key={pattern.id}
+                  className="flex items-center justify-between gap-2 p-1.5 rounded"
+                  style={{
+                    background: pattern.id === patternId ? `${theme.primary}20` : 'transparent',
+                    border: `1px solid ${pattern.id === patternId ? theme.primary : `${theme.primary}20`}`
                   }}
-                  disabled={isBreathing}
-                />
-              </div>
+                >
+                  <button
+                    type="button"
+                    onClick={() => applyPattern(pattern)}
+                    aria-pressed={pattern.id === patternId}
+                    className="flex-1 min-w-0 text-left"
+                    style={{ color: theme.primary }}
+                  >
+                    <div className="text-xs font-medium truncate">{pattern.name}</div>
+                    <div className="text-xs opacity-70">
+                      {formatPattern(pattern.phases)} · {new Date(pattern.createdAt).toLocaleDateString()}
+                    </div>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => openDraft(toDraft(pattern))}
+                    className={CUSTOM_STYLES.rowButton}
+                    style={{ color: theme.primary }}
+                    aria-label={`Edit ${pattern.name}`}
+                    title="Edit"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDuplicate(pattern)}
+                    className={CUSTOM_STYLES.rowButton}
+                    style={{ color: theme.primary }}
+                    aria-label={`Duplicate ${pattern.name}`}
+                    title="Duplicate"
+                  >
+                    ⧉
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(pattern)}
+                    className={CUSTOM_STYLES.rowButton}
+                    style={{ color: theme.primary }}
+                    aria-label={`Delete ${pattern.name}`}
+                    title="Delete"
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {!draft ? (
+            <button
+              ref={newButtonRef}
+              type="button"
+              onClick={() => openDraft(NEW_DRAFT)}
+              className={CUSTOM_STYLES.button}
+              style={fieldStyle}
+            >
+              + New pattern
+            </button>
+          ) : (
+            <form
+              onSubmit={handleSubmit}
+              onKeyDown={(e) => e.key === 'Escape' && setDraft(null)}
+              className={CUSTOM_STYLES.form}
+              aria-label={draft.id ? 'Edit pattern' : 'New pattern'}
+            >
+              <input
+                ref={nameInputRef}
+                type="text"
+                placeholder="Name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className={CUSTOM_STYLES.textInput}
+                style={fieldStyle}
+                aria-label="Pattern name"
+              />
+              <input
+                type="text"
+                placeholder="Description"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className={CUSTOM_STYLES.textInput}
+                style={fieldStyle}
+                aria-label="Pattern description"
+              />
               <div className={CUSTOM_STYLES.inputGroup}>
-                <label className={CUSTOM_STYLES.label} style={{ color: theme.primary }}>
-                  Hold:
+                <label htmlFor={`${fieldId}-theme`} className={CUSTOM_STYLES.label} style={{ color: theme.primary }}>
+                  Theme:
                 </label>
-                <input
-                  type="number"
-                  min="0"
-                  max="10"
-                  value={customPattern.hold}
-                  onChange={(e) => setCustomPattern(prev => ({
-                    ...prev,
-                    hold: parseInt(e.target.value) || 0
-                  }))}
-                  className={CUSTOM_STYLES.input}
-                  style={{ 
-                    color: theme.primary,
-                    borderColor: `${theme.primary}40`,
-                    background: `${theme.primary}10`
-                  }}
-                  disabled={isBreathing}
-                />
+                <select
+                  id={`${fieldId}-theme`}
+                  value={draft.themeName}
+                  onChange={(e) => setDraft({ ...draft, themeName: e.target.value })}
+                  className={CUSTOM_STYLES.select}
+                  style={fieldStyle}
+                >
+                  {PATTERN_THEMES.map(t => (
+                    <option key={t.name} value={t.name}>
+                      {t.name}
+                    </option>
+                  ))}
+                </select>
               </div>
+              {TIMING_FIELDS.map(field => (
+                <React.Fragment key={field.key}>
+                  <div className={CUSTOM_STYLES.inputGroup}>
+                    <label
+                      htmlFor={`${fieldId}-${field.key}`}
+                      className={CUSTOM_STYLES.label}
+                      style={{ color: theme.primary }}
+                    >
+                      {field.label}
+                    </label>
+                    <input
+                      id={`${fieldId}-${field.key}`}
+                      type="number"
+                      step={DURATION_STEP}
+                      min={field.isOptional ? 0 : MIN_BREATH_DURATION}
+                      max={field.isHold ? timingLimits.hold : timingLimits.breath}
+                      value={fieldTexts[field.key] ?? draft[field.key]}
+                      onChange={(e) => handleTimingChange(field.key, e.target.value)}
+                      onBlur={() => handleTimingBlur(field)}
+                      onKeyDown={handleNumberKeyDown}
+                      className={CUSTOM_STYLES.input}
+                      style={fieldStyle}
+                    />
+                  </div>
+                  {field.key === 'topUp' && draft.topUp > 0 && (
+                    <div className={CUSTOM_STYLES.inputGroup}>
+                      <label
+                        htmlFor={`${fieldId}-inhaleLevel`}
+                        className={CUSTOM_STYLES.label}
+                        style={{ color: theme.primary }}
+                      >
+                        First in fills (%):
+                      </label>
+                      <input
+                        id={`${fieldId}-inhaleLevel`}
+                        type="number"
+                        step={INHALE_LEVEL_LIMITS.step}
+                        min={INHALE_LEVEL_LIMITS.min}
+                        max={INHALE_LEVEL_LIMITS.max}
+                        value={fieldTexts.inhaleLevel ?? draft.inhaleLevel}
+                        onChange={(e) => handleInhaleLevelChange(e.target.value)}
+                        onBlur={handleInhaleLevelBlur}
+                        onKeyDown={handleNumberKeyDown}
+                        className={CUSTOM_STYLES.input}
+                        style={fieldStyle}
+                      />
+                    </div>
+                  )}
+                </React.Fragment>
+              ))}
               <div className={CUSTOM_STYLES.inputGroup}>
-                <label className={CUSTOM_STYLES.label} style={{ color: theme.primary }}>
-                  Out:
+                <label htmlFor={`${fieldId}-bpm`} className={CUSTOM_STYLES.label} style={{ color: theme.primary }}>
+                  Breaths/min:
                 </label>
-                <input
-                  type="number"
-                  min="1"
-                  max="10"
-                  value={customPattern.exhale}
-                  onChange={(e) => setCustomPattern(prev => ({
-                    ...prev,
-                    exhale: parseInt(e.target.value) || 1
-                  }))}
-                  className={CUSTOM_STYLES.input}
-                  style={{ 
-                    color: theme.primary,
-                    borderColor: `${theme.primary}40`,
-                    background: `${theme.primary}10`
-                  }}
-                  disabled={isBreathing}
-                />
+                <div className="flex items-center gap-1">
+                  <input
+                    id={`${fieldId}-bpm`}
+                    type="number"
+                    step={DURATION_STEP}
+                    min={BREATHS_PER_MINUTE_LIMITS.min}
+                    max={BREATHS_PER_MINUTE_LIMITS.max}
+                    value={fieldTexts.bpm ?? breathsPerMinute}
+                    onChange={(e) => handleBreathsPerMinuteChange(e.target.value)}
+                    onBlur={handleBreathsPerMinuteBlur}
+                    onKeyDown={handleNumberKeyDown}
+                    className={CUSTOM_STYLES.input}
+                    style={fieldStyle}
+                  />
+                  <button
+                    type="button"
+                    onClick={handleGenerate}
+                    className="px-1.5 py-1 rounded text-xs font-medium"
+                    style={fieldStyle}
+                    title="Fill in an equal inhale and exhale for this rate"
+                  >
+                    Set
+                  </button>
+                </div>
               </div>
               <button
-                type="submit"
-                className={CUSTOM_STYLES.button}
-                style={{
-                  background: theme.primary,
-                  color: '#fff',
-                  boxShadow: `0 2px 8px ${theme.primary}80`,
-                  opacity: isBreathing ? 0.5 : 1,
-                  pointerEvents: isBreathing ? 'none' : 'auto'
-                }}
+                type="button"
+                onClick={() => setShowLimits(!showLimits)}
+                aria-expanded={showLimits}
+                className={`${CUSTOM_STYLES.label} opacity-70`}
+                style={{ color: theme.primary }}
               >
-                Apply
+                Limits {showLimits ? '▲' : '▼'}
               </button>
-            </>
+              {showLimits && (
+                <>
+                  <div className={CUSTOM_STYLES.inputGroup}>
+                    <label htmlFor={`${fieldId}-limit-breath`} className={CUSTOM_STYLES.label} style={{ color: theme.primary }}>
+                      Max in/out:
+                    </label>
+                    <input
+                      id={`${fieldId}-limit-breath`}
+                      type="number"
+                      min={DEFAULT_TIMING_LIMITS.breath}
+                      max={MAX_TIMING_LIMITS.breath}
+                      value={fieldTexts['limit-breath'] ?? timingLimits.breath}
+                      onChange={(e) => handleLimitChange('breath', e.target.value)}
+                      onBlur={() => handleLimitBlur('breath')}
+                      onKeyDown={handleNumberKeyDown}
+                      className={CUSTOM_STYLES.input}
+                      style={fieldStyle}
+                    />
+                  </div>
+                  <div className={CUSTOM_STYLES.inputGroup}>
+                    <label htmlFor={`${fieldId}-limit-hold`} className={CUSTOM_STYLES.label} style={{ color: theme.primary }}>
+                      Max hold:
+                    </label>
+                    <input
+                      id={`${fieldId}-limit-hold`}
+                      type="number"
+                      min={DEFAULT_TIMING_LIMITS.hold}
+                      max={MAX_TIMING_LIMITS.hold}
+                      value={fieldTexts['limit-hold'] ?? timingLimits.hold}
+                      onChange={(e) => handleLimitChange('hold', e.target.value)}
+                      onBlur={() => handleLimitBlur('hold')}
+                      onKeyDown={handleNumberKeyDown}
+                      className={CUSTOM_STYLES.input}
+                      style={fieldStyle}
+                    />
+                  </div>
+                </>
+              )}
+              <div aria-live="polite">
+                {warnings.map(warning => (
+                  <p key={warning} className={CUSTOM_STYLES.warning} style={{ color: '#b45309' }}>
+                    ⚠ {warning}
+                  </p>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setDraft(null)}
+                  className={CUSTOM_STYLES.button}
+                  style={fieldStyle}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className={CUSTOM_STYLES.button}
+                  style={{
+                    background: theme.primary,
+                    color: '#fff',
+                    boxShadow: `0 2px 8px ${theme.primary}80`
+                  }}
+                >
+                  {draft.id ? 'Save' : 'Create'}
+                </button>
+              </div>
+            </form>
           )}
-        </form>
+        </div>
       )}
     </div>
   );
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,43 @@
+/**
+ * HapticGuide component that paces a breathing session with vibration.
+ * Renders nothing; it listens to the same session engine phase changes that drive
+ * the breathing sphere.
+ * Features:
+ * - A distinct pulse pattern at each phase boundary
+ * - Optional pulse train whose rate tells the phases apart
+ * - Stillness while paused and after the session ends
+ */
+import React, { useEffect } from 'react';
+import { useBreathingStore } from '../store/breathingStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { sessionEngine } from '../lib/sessionEngine';
+import { hapticPacer } from '../lib/haptics';
+
+/**
+ * HapticGuide component that drives the haptic pacer from the session engine
+ * @returns {null} Nothing is rendered
+ */
+export const HapticGuide: React.FC = () => {
+  const { isBreathing, isPaused } = useBreathingStore();
+  const haptics = useSettingsStore(state => state.haptics);
+
+  // Pulse at phase changes and, if enabled, throughout each phase
+  useEffect(() => {
+    if (!haptics.enabled || !hapticPacer.isSupported) return;
+
+    return sessionEngine.subscribe(({ type, progress }) => {
+      if (type === 'phase') {
+        hapticPacer.pulsePhase(progress.phase, haptics);
+      } else if (type === 'progress' && haptics.pulseTrain) {
+        hapticPacer.updatePulseTrain(progress, haptics);
+      }
+    });
+  }, [haptics]);
+
+  // Cut any running vibration when the session is paused or stopped
+  useEffect(() => {
+    if (!isBreathing || isPaused) hapticPacer.stop();
+  }, [isBreathing, isPaused]);
+
+  return null;
+};
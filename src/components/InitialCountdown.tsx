@@ -1,30 +1,32 @@
 /**
  * InitialCountdown component that displays a countdown before starting the breathing exercise.
- * Shows a 3-2-1 countdown with a "Go!" message at the end.
+ * Shows a countdown of the configured length (3-2-1 by default) with a "Go!" message at the end.
  * Features:
  * - Animated countdown display
  * - Blur effect background
  * - Theme-aware styling
- * - Automatic breathing session start
+ * - Automatic breathing session start, or the settle-in period when one is set
+ * - Skipped entirely when the countdown is turned off
+ * - Optional spoken countdown from the voice coach
  */
 import React, { useEffect, useState } from 'react';
 import { useBreathingStore } from '../store/breathingStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { voiceCoach } from '../lib/voiceCoach';
 
 /**
  * Configuration for the countdown display and behavior
  * Defines:
- * - Initial countdown value
  * - Timer interval
  * - Visual styles for container and numbers
  * - Blur effects for background and text
  */
 const COUNTDOWN_CONFIG = {
-  initialCount: 3,
   interval: 1000, // 1 second
   styles: {
     container: "fixed inset-0 flex items-center justify-center pointer-events-none",
     content: "text-center transform transition-all duration-300",
-    number: "text-9xl font-bold mb-4 animate-pulse",
+    number: "text-9xl font-bold mb-4 motion-safe:animate-pulse",
     blur: {
       backdrop: 'blur(8px)',
       text: 'blur(0.5px)'
@@ -35,7 +37,7 @@ const COUNTDOWN_CONFIG = {
 /**
  * InitialCountdown component that displays a countdown before starting the breathing exercise
  * Features:
- * - Animated countdown from 3 to 1
+ * - Animated countdown to 1 from the configured length
  * - "Go!" message at countdown end
  * - Blur effect background
  * - Theme-aware styling with glow effects
@@ -44,16 +46,33 @@ const COUNTDOWN_CONFIG = {
  * @returns {JSX.Element | null} The rendered countdown interface or null when finished
  */
 export const InitialCountdown: React.FC = () => {
-  const { theme, startBreathing } = useBreathingStore();
-  const [count, setCount] = useState<number>(COUNTDOWN_CONFIG.initialCount);
+  const { theme, startBreathing, beginSettleIn } = useBreathingStore();
+  const voice = useSettingsStore(state => state.voice);
+  const stages = useSettingsStore(state => state.stages);
+  // The length is read once, so changing it mid-countdown has no effect
+  const [initialCount] = useState(stages.countdown);
+  const [count, setCount] = useState<number>(initialCount);
   const [isVisible, setIsVisible] = useState(true);
 
   /**
-   * Effect to handle the countdown timer and start breathing when countdown ends
+   * Effect to speak each number, only when the voice coach is asked to
+   */
+  useEffect(() => {
+    if (count > 0 && voice.enabled && voice.speakInitialCountdown) {
+      voiceCoach.sayCount(count, voice);
+    }
+  }, [count, voice]);
+
+  /**
+   * Effect to handle the countdown timer and start breathing, or settling in, when countdown ends
    */
   useEffect(() => {
     if (count === 0) {
-      startBreathing();
+      if (stages.settleIn > 0) {
+        beginSettleIn();
+      } else {
+        startBreathing();
+      }
       // Add a small delay before hiding to show "Go!"
       const hideTimer = setTimeout(() => {
         setIsVisible(false);
@@ -66,9 +85,9 @@ export const InitialCountdown: React.FC = () => {
     }, COUNTDOWN_CONFIG.interval);
 
     return () => clearTimeout(timer);
-  }, [count, startBreathing]);
+  }, [count, startBreathing, beginSettleIn, stages.settleIn]);
 
-  if (!isVisible) return null;
+  if (!isVisible || initialCount === 0) return null;
 
   return (
     <div 
@@ -82,7 +101,10 @@ export const InitialCountdown: React.FC = () => {
           filter: COUNTDOWN_CONFIG.styles.blur.text
         }}
       >
-        <div 
+        <div
+          role="timer"
+          aria-live="assertive"
+          aria-atomic="true"
           className={COUNTDOWN_CONFIG.styles.number}
           style={{ color: theme.primary }}
         >
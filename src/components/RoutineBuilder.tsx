@@ -0,0 +1,294 @@
+/**
+ * RoutineBuilder component that lets users chain breathing patterns into a routine.
+ * Features:
+ * - Saved routines that can be selected or deleted
+ * - Builder for new routines (name, patterns and minutes per segment)
+ * - Collapsible panel interface
+ * - Theme-aware styling
+ * - Disabled state during active sessions
+ */
+import React, { useState } from 'react';
+import { useBreathingStore } from '../store/breathingStore';
+import { BREATHING_PATTERNS, getPattern } from '../lib/breathingPatterns';
+import { getRoutineDuration, loadRoutines, saveRoutines, type Routine } from '../lib/routines';
+
+/**
+ * Default and limits for a segment length in minutes
+ */
+const SEGMENT_LIMITS = {
+  default: 2,
+  min: 1,
+  max: 60
+} as const;
+
+/**
+ * Styles for the routine builder
+ * Defines the visual appearance of:
+ * - Main container with blur effect
+ * - Saved routine rows and segment rows
+ * - Input fields, labels and buttons
+ * - Collapsed state appearance
+ */
+const ROUTINE_STYLES = {
+  container: "md:fixed md:left-[22rem] md:top-4 p-3 w-64 transform transition-all duration-300 space-y-2",
+  collapsed: "flex items-center justify-between cursor-pointer",
+  row: "flex items-center justify-between gap-2",
+  label: "text-xs font-medium",
+  select: "flex-1 min-w-0 p-1 rounded bg-white/10 border border-white/20 text-xs",
+  input: "w-12 p-1 rounded bg-white/10 border border-white/20 text-sm text-center",
+  textInput: "w-full p-1 rounded bg-white/10 border border-white/20 text-xs",
+  button: "w-full p-1.5 rounded text-xs font-medium transition-all duration-300",
+  smallButton: "px-2 py-0.5 rounded text-xs font-medium transition-all duration-300",
+  iconButton: "text-xs opacity-60 hover:opacity-100 transition-opacity"
+} as const;
+
+/**
+ * A segment of the routine being built
+ * - patternId: ID of the predefined or custom pattern
+ * - minutes: Segment length in minutes
+ */
+interface DraftSegment {
+  patternId: string;
+  minutes: number;
+}
+
+/**
+ * Creates a segment with the first pattern and the default length
+ */
+const createDraftSegment = (): DraftSegment => ({
+  patternId: BREATHING_PATTERNS[0].id,
+  minutes: SEGMENT_LIMITS.default
+});
+
+/**
+ * RoutineBuilder component that lets users build, save and select routines
+ * Features:
+ * - Saved routine list with total length
+ * - Segment editing with predefined or custom pattern selection and length validation (1-60 minutes)
+ * - Collapsible panel interface
+ * - Theme-aware styling with blur effects
+ * - Disabled state during active sessions
+ *
+ * @returns {JSX.Element} The rendered routine builder
+ */
+export const RoutineBuilder: React.FC = () => {
+  const { theme, isBreathing, activeRoutine, setActiveRoutine, customPatterns } = useBreathingStore();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [routines, setRoutines] = useState<Routine[]>(loadRoutines);
+  const [name, setName] = useState('');
+  const [segments, setSegments] = useState<DraftSegment[]>([createDraftSegment()]);
+
+  const handleToggle = () => {
+    if (isBreathing) return;
+    // Reload so routines saved from the other layout show up
+    if (!isExpanded) setRoutines(loadRoutines());
+    setIsExpanded(!isExpanded);
+  };
+
+  const updateSegment = (index: number, update: Partial<DraftSegment>) => {
+    setSegments(prev => prev.map((segment, i) => (i === index ? { ...segment, ...update } : segment)));
+  };
+
+  const handleMinutesChange = (index: number, value: string) => {
+    const minutes = Math.max(
+      SEGMENT_LIMITS.min,
+      Math.min(SEGMENT_LIMITS.max, parseInt(value) || SEGMENT_LIMITS.min)
+    );
+    updateSegment(index, { minutes });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const routineName = name.trim();
+    if (isBreathing || !routineName || segments.length === 0) return;
+
+    const routine: Routine = {
+      id: crypto.randomUUID(),
+      name: routineName,
+      segments: segments.map(segment => {
+        const pattern = getPattern(segment.patternId, customPatterns) ?? BREATHING_PATTERNS[0];
+        return {
+          patternId: pattern.id,
+          name: pattern.name,
+          phases: pattern.phases,
+          ...(pattern.progression ? { progression: pattern.progression } : {}),
+          theme: {
+            primary: pattern.theme.primary,
+            secondary: pattern.theme.secondary,
+            background: pattern.theme.background
+          },
+          duration: segment.minutes * 60
+        };
+      })
+    };
+
+    const updatedRoutines = [...routines, routine];
+    saveRoutines(updatedRoutines);
+    setRoutines(updatedRoutines);
+    setActiveRoutine(routine);
+    setName('');
+    setSegments([createDraftSegment()]);
+  };
+
+  const handleDelete = (routine: Routine) => {
+    const updatedRoutines = routines.filter(r => r.id !== routine.id);
+    saveRoutines(updatedRoutines);
+    setRoutines(updatedRoutines);
+    if (activeRoutine?.id === routine.id) setActiveRoutine(null);
+  };
+
+  const fieldStyle = {
+    color: theme.primary,
+    borderColor: `${theme.primary}40`,
+    background: `${theme.primary}10`
+  };
+
+  return (
+    <div
+      className={ROUTINE_STYLES.container}
+      style={{
+        background: `${theme.background}99`,
+        backdropFilter: 'blur(8px)',
+        border: `1px solid ${theme.primary}40`,
+        borderRadius: '0.75rem',
+        opacity: isBreathing ? 0.5 : 1,
+        pointerEvents: isBreathing ? 'none' : 'auto'
+      }}
+    >
+      <div className={ROUTINE_STYLES.collapsed} onClick={handleToggle}>
+        <span className={ROUTINE_STYLES.label} style={{ color: theme.primary }}>
+          Routine{activeRoutine ? `: ${activeRoutine.name}` : ''}
+        </span>
+        <span className="text-xs" style={{ color: theme.primary }}>
+          {isExpanded ? '▲' : '▼'}
+        </span>
+      </div>
+
+      {isExpanded && (
+        <>
+          {/* Saved Routines */}
+          {routines.length > 0 && (
+            <ul className="space-y-1">
+              {routines.map(routine => (
+                <li
+                  key={routine.id}
+                  className={`${ROUTINE_STYLES.row} p-1.5 rounded`}
+                  style={{
+                    background: activeRoutine?.id === routine.id ? `${theme.primary}20` : 'transparent',
+                    border: `1px solid ${activeRoutine?.id === routine.id ? theme.primary : `${theme.primary}20`}`
+                  }}
+                >
+                  <button
+                    type="button"
+                    onClick={() => setActiveRoutine(routine)}
+                    className="flex-1 min-w-0 text-left"
+                    style={{ color: theme.primary }}
+                  >
+                    <div className="text-xs font-medium truncate">{routine.name}</div>
+                    <div className="text-xs opacity-70 truncate">
+                      {routine.segments.map(segment => getPattern(segment.patternId, customPatterns)?.name ?? segment.name).join(' → ')} · {getRoutineDuration(routine) / 60} min
+                    </div>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(routine)}
+                    className={ROUTINE_STYLES.iconButton}
+                    style={{ color: theme.primary }}
+                    aria-label={`Delete ${routine.name}`}
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* New Routine */}
+          <form onSubmit={handleSave} className="space-y-2">
+            <input
+              type="text"
+              placeholder="New routine name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              className={ROUTINE_STYLES.textInput}
+              style={fieldStyle}
+              aria-label="Routine name"
+            />
+            {segments.map((segment, index) => (
+              <div key={index} className={ROUTINE_STYLES.row}>
+                <select
+                  value={segment.patternId}
+                  onChange={e => updateSegment(index, { patternId: e.target.value })}
+                  className={ROUTINE_STYLES.select}
+                  style={fieldStyle}
+                  aria-label={`Segment ${index + 1} pattern`}
+                >
+                  {[...BREATHING_PATTERNS, ...customPatterns].map(pattern => (
+                    <option key={pattern.id} value={pattern.id}>
+                      {pattern.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={SEGMENT_LIMITS.min}
+                  max={SEGMENT_LIMITS.max}
+                  value={segment.minutes}
+                  onChange={e => handleMinutesChange(index, e.target.value)}
+                  className={ROUTINE_STYLES.input}
+                  style={fieldStyle}
+                  aria-label={`Segment ${index + 1} minutes`}
+                />
+                <span className={ROUTINE_STYLES.label} style={{ color: theme.primary }}>
+                  min
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setSegments(prev => prev.filter((_, i) => i !== index))}
+                  className={ROUTINE_STYLES.iconButton}
+                  style={{ color: theme.primary, visibility: segments.length > 1 ? 'visible' : 'hidden' }}
+                  aria-label={`Remove segment ${index + 1}`}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <div className={ROUTINE_STYLES.row}>
+              <button
+                type="button"
+                onClick={() => setSegments(prev => [...prev, createDraftSegment()])}
+                className={ROUTINE_STYLES.smallButton}
+                style={fieldStyle}
+              >
+                + Segment
+              </button>
+              {activeRoutine && (
+                <button
+                  type="button"
+                  onClick={() => setActiveRoutine(null)}
+                  className={ROUTINE_STYLES.smallButton}
+                  style={fieldStyle}
+                >
+                  Clear routine
+                </button>
+              )}
+            </div>
+            <button
+              type="submit"
+              className={ROUTINE_STYLES.button}
+              style={{
+                background: theme.primary,
+                color: '#fff',
+                boxShadow: `0 2px 8px ${theme.primary}80`,
+                opacity: name.trim() ? 1 : 0.5
+              }}
+              disabled={!name.trim()}
+            >
+              Save routine
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+};
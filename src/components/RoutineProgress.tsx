@@ -0,0 +1,96 @@
+/**
+ * RoutineProgress component that shows where the user is in a routine.
+ * Features:
+ * - Segment indicator with the current segment highlighted
+ * - Short transition cue when the routine moves to its next segment
+ * - Theme-aware styling
+ * - Only visible while a routine session is running
+ */
+import React, { useEffect, useState } from 'react';
+import { useBreathingStore } from '../store/breathingStore';
+import { getPattern } from '../lib/breathingPatterns';
+
+/**
+ * How long the transition cue stays visible, in milliseconds
+ */
+const CUE_DURATION = 2500;
+
+/**
+ * Styles for the routine progress indicator
+ * Defines the visual appearance of:
+ * - Container centered at the top of the screen
+ * - Segment bars
+ * - Transition cue
+ */
+const PROGRESS_STYLES = {
+  container: "fixed top-36 md:top-6 left-1/2 -translate-x-1/2 px-3 py-2 rounded-xl flex flex-col items-center gap-1.5 transition-all duration-300",
+  title: "text-xs font-medium",
+  segments: "flex gap-1",
+  segment: "h-1.5 w-8 rounded-full transition-all duration-500",
+  cue: "text-sm font-semibold transition-all duration-500"
+} as const;
+
+/**
+ * RoutineProgress component that shows the routine's segments and announces segment changes
+ * Features:
+ * - Completed, current and upcoming segments
+ * - "Now: <pattern>" cue for a few seconds after each segment change
+ * - Theme-aware styling with blur effects
+ *
+ * @returns {JSX.Element | null} The rendered indicator, or null outside routine sessions
+ */
+export const RoutineProgress: React.FC = () => {
+  const { theme, isBreathing, activeRoutine, currentSegment, customPatterns } = useBreathingStore();
+  const [showCue, setShowCue] = useState(false);
+
+  // Show the cue whenever a later segment starts
+  useEffect(() => {
+    if (currentSegment === 0) return;
+    setShowCue(true);
+    const timeout = setTimeout(() => setShowCue(false), CUE_DURATION);
+    return () => clearTimeout(timeout);
+  }, [currentSegment]);
+
+  if (!isBreathing || !activeRoutine) return null;
+
+  const segment = activeRoutine.segments[currentSegment];
+  const segmentName = segment && (getPattern(segment.patternId, customPatterns)?.name ?? segment.name);
+
+  return (
+    <div
+      className={PROGRESS_STYLES.container}
+      style={{
+        background: `${theme.background}99`,
+        backdropFilter: 'blur(8px)',
+        border: `1px solid ${theme.primary}40`
+      }}
+    >
+      <div className={PROGRESS_STYLES.title} style={{ color: theme.primary }}>
+        {activeRoutine.name} · {currentSegment + 1} / {activeRoutine.segments.length}
+      </div>
+      <div className={PROGRESS_STYLES.segments}>
+        {activeRoutine.segments.map((s, index) => (
+          <div
+            key={index}
+            className={PROGRESS_STYLES.segment}
+            title={getPattern(s.patternId, customPatterns)?.name ?? s.name}
+            style={{
+              background: theme.primary,
+              opacity: index < currentSegment ? 0.7 : index === currentSegment ? 1 : 0.2
+            }}
+          />
+        ))}
+      </div>
+      <div
+        className={PROGRESS_STYLES.cue}
+        style={{
+          color: theme.primary,
+          opacity: showCue ? 1 : 0.7,
+          transform: showCue ? 'scale(1.15)' : 'scale(1)'
+        }}
+      >
+        {showCue ? `Now: ${segmentName}` : segmentName}
+      </div>
+    </div>
+  );
+};
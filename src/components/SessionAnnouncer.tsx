@@ -0,0 +1,92 @@
+/**
+ * SessionAnnouncer component that tells screen reader users what the breathing guide shows.
+ * Renders a visually hidden live region; it listens to the session engine's phase changes.
+ * Features:
+ * - Each phase and its length as it begins
+ * - Minutes left in timed sessions and routines, once a minute
+ * - Breaths left in cycle count sessions, at the start of each cycle
+ * - Pause, resume and end of the session
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { useBreathingStore } from '../store/breathingStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { sessionEngine, type SessionGoal, type SessionProgress } from '../lib/sessionEngine';
+import { PHASE_LABELS, roundDuration } from '../lib/breathingPhases';
+import { getRoutineDuration, type Routine } from '../lib/routines';
+
+/**
+ * Describes what is left of the session, if it has an end
+ * @param progress - The session progress at the start of a phase
+ * @param goal - The session goal
+ * @param routine - The active routine, whose length replaces the goal
+ * @param lastMinute - Minutes left at the last announcement
+ * @returns The text to announce and the minutes left, or null when nothing new is left to say
+ */
+const describeRemaining = (
+  progress: SessionProgress,
+  goal: SessionGoal,
+  routine: Routine | null,
+  lastMinute: number | null
+): { text: string; minutes: number | null } | null => {
+  if (!routine && goal.type === 'cycles') {
+    if (progress.phaseIndex !== 0) return null;
+    const breaths = goal.cycles - progress.completedCycles;
+    return { text: `${breaths} ${breaths === 1 ? 'breath' : 'breaths'} left`, minutes: null };
+  }
+
+  const total = routine ? getRoutineDuration(routine) : goal.type === 'duration' ? goal.seconds : null;
+  if (total === null) return null;
+  const minutes = Math.ceil((total - progress.elapsed) / 60);
+  if (minutes === lastMinute || minutes <= 0) return null;
+  return { text: `${minutes} ${minutes === 1 ? 'minute' : 'minutes'} left`, minutes };
+};
+
+/**
+ * Creates a state update that replaces the live region's message
+ */
+const nextMessage = (text: string) => (prev: { id: number; text: string }) => ({ id: prev.id + 1, text });
+
+/**
+ * SessionAnnouncer component that announces the session through an ARIA live region
+ * @returns {JSX.Element} The visually hidden live region
+ */
+export const SessionAnnouncer: React.FC = () => {
+  const { isBreathing, isPaused, sessionGoal, activeRoutine } = useBreathingStore();
+  const announcements = useSettingsStore(state => state.accessibility.announcements);
+  // Each message gets a new key so repeated text, like two holds in a row, is read again
+  const [message, setMessage] = useState({ id: 0, text: '' });
+  const lastMinute = useRef<number | null>(null);
+  const wasBreathing = useRef(false);
+
+  // Announce each phase, with the time left when it changes
+  useEffect(() => {
+    if (!announcements) return;
+
+    return sessionEngine.subscribe(({ type, progress }) => {
+      if (type !== 'phase') return;
+
+      const phaseText = `${PHASE_LABELS[progress.phase.type]} for ${roundDuration(progress.phase.duration)} seconds`;
+      const remaining = describeRemaining(progress, sessionGoal, activeRoutine, lastMinute.current);
+      if (remaining?.minutes != null) lastMinute.current = remaining.minutes;
+      setMessage(nextMessage(remaining ? `${phaseText}. ${remaining.text}` : phaseText));
+    });
+  }, [announcements, sessionGoal, activeRoutine]);
+
+  // Announce pausing, resuming and stopping
+  useEffect(() => {
+    if (!announcements) return;
+    if (isBreathing) {
+      if (wasBreathing.current) setMessage(nextMessage(isPaused ? 'Paused' : 'Resumed'));
+    } else if (wasBreathing.current) {
+      setMessage(nextMessage('Session ended'));
+    }
+    if (!isBreathing) lastMinute.current = null;
+    wasBreathing.current = isBreathing;
+  }, [announcements, isBreathing, isPaused]);
+
+  return (
+    <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+      {message.text && <p key={message.id}>{message.text}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,269 @@
+/**
+ * SessionData component that backs up and restores the session history on the Stats page.
+ * Features:
+ * - Export all sessions, or those in a date range, as CSV or JSON
+ * - Import a CSV or JSON export, merged by session ID
+ * - Preview of what an import will add, with duplicates and unreadable rows reported
+ * - Theme-aware styling
+ */
+import React, { useId, useRef, useState } from 'react';
+import { useBreathingStore } from '../store/breathingStore';
+import { sessionRepository } from '../lib/sessionRepository';
+import { getPattern } from '../lib/breathingPatterns';
+import {
+  exportSessionsCsv,
+  exportSessionsJson,
+  getExportFileName,
+  parseSessionsImport,
+  planImport,
+  type ExportFormat,
+  type ImportPlan,
+} from '../lib/sessionTransfer';
+
+/**
+ * Styles for the data card
+ */
+const DATA_STYLES = {
+  card: "p-3 md:p-4 rounded-xl backdrop-blur-lg transition-all duration-300 mb-3 md:mb-4 space-y-3",
+  title: "text-sm font-medium",
+  row: "flex flex-wrap items-center gap-2",
+  label: "text-xs",
+  input: "p-1 rounded bg-white/10 border text-xs",
+  button: "px-3 py-1 rounded-full text-xs font-medium transition-all duration-300 disabled:opacity-50",
+  preview: "space-y-1 text-xs",
+  note: "text-xs opacity-70"
+} as const;
+
+/**
+ * Most unreadable rows and new sessions listed in the import preview
+ */
+const PREVIEW_LIMIT = 5;
+
+/**
+ * MIME types of the export formats
+ */
+const EXPORT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json'
+};
+
+/**
+ * Props for the SessionData component
+ * - onImported: Called after sessions have been imported, to reload the stats
+ */
+interface SessionDataProps {
+  onImported: () => void;
+}
+
+/**
+ * Offers a file for download
+ */
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * SessionData component with the export and import controls
+ * @param {SessionDataProps} props - Component props
+ * @returns {JSX.Element} The rendered data card
+ */
+export const SessionData: React.FC<SessionDataProps> = ({ onImported }) => {
+  const { theme, customPatterns } = useBreathingStore();
+  const fieldId = useId();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [message, setMessage] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  /**
+   * Exports the sessions from the start of `from` to the end of `to`, local time
+   */
+  const handleExport = async () => {
+    const toDate = to ? new Date(`${to}T00:00`) : null;
+    toDate?.setDate(toDate.getDate() + 1);
+    let sessions;
+    try {
+      sessions = await sessionRepository.query({
+        ...(from ? { from: new Date(`${from}T00:00`).toISOString() } : {}),
+        ...(toDate ? { to: toDate.toISOString() } : {})
+      });
+    } catch {
+      setMessage('Your sessions could not be read for export.');
+      return;
+    }
+    if (sessions.length === 0) {
+      setMessage('There are no sessions to export in this range.');
+      return;
+    }
+    downloadFile(
+      format === 'csv' ? exportSessionsCsv(sessions) : exportSessionsJson(sessions),
+      getExportFileName(format),
+      EXPORT_TYPES[format]
+    );
+    setMessage(`Exported ${sessions.length} ${sessions.length === 1 ? 'session' : 'sessions'}.`);
+  };
+
+  /**
+   * Reads the chosen file and shows what importing it would do
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow the same file to be chosen again
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const parsed = parseSessionsImport(await file.text());
+      setPlan(planImport(parsed, await sessionRepository.listIds()));
+      setMessage('');
+    } catch {
+      setPlan(null);
+      setMessage('The file could not be read.');
+    }
+  };
+
+  /**
+   * Adds the new sessions one by one; if saving fails part way, the sessions
+   * added so far are kept and reported
+   */
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsWorking(true);
+    let imported = 0;
+    try {
+      for (const session of plan.added) {
+        await sessionRepository.add(session);
+        imported++;
+      }
+      setMessage(`Imported ${imported} ${imported === 1 ? 'session' : 'sessions'}.`);
+    } catch {
+      setMessage(`Importing stopped after ${imported} of ${plan.added.length} sessions because they could not be saved.`);
+    } finally {
+      setIsWorking(false);
+      setPlan(null);
+      if (imported > 0) onImported();
+    }
+  };
+
+  const textStyle = { color: theme.primary };
+  const fieldStyle = { color: theme.primary, borderColor: `${theme.primary}40` };
+  const buttonStyle = {
+    background: `${theme.primary}20`,
+    border: `1px solid ${theme.primary}40`,
+    color: theme.primary
+  };
+
+  return (
+    <div
+      className={DATA_STYLES.card}
+      style={{
+        background: `${theme.primary}20`,
+        border: `2px solid ${theme.primary}40`,
+        boxShadow: `0 4px 14px ${theme.primary}40`
+      }}
+    >
+      <div className={DATA_STYLES.title} style={textStyle}>Your Data</div>
+
+      <div className={DATA_STYLES.row}>
+        <label htmlFor={`${fieldId}-from`} className={DATA_STYLES.label} style={textStyle}>From</label>
+        <input
+          id={`${fieldId}-from`}
+          type="date"
+          value={from}
+          max={to || undefined}
+          onChange={e => setFrom(e.target.value)}
+          className={DATA_STYLES.input}
+          style={fieldStyle}
+        />
+        <label htmlFor={`${fieldId}-to`} className={DATA_STYLES.label} style={textStyle}>To</label>
+        <input
+          id={`${fieldId}-to`}
+          type="date"
+          value={to}
+          min={from || undefined}
+          onChange={e => setTo(e.target.value)}
+          className={DATA_STYLES.input}
+          style={fieldStyle}
+        />
+      </div>
+      <div className={DATA_STYLES.row}>
+        <select
+          value={format}
+          onChange={e => setFormat(e.target.value as ExportFormat)}
+          className={DATA_STYLES.input}
+          style={fieldStyle}
+          aria-label="Export format"
+        >
+          <option value="csv">CSV (spreadsheets)</option>
+          <option value="json">JSON (backup)</option>
+        </select>
+        <button onClick={handleExport} className={DATA_STYLES.button} style={buttonStyle}>
+          Export
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={DATA_STYLES.button} style={buttonStyle}>
+          Import…
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleFileChange}
+          className="hidden"
+        />
+      </div>
+      <p className={DATA_STYLES.note} style={textStyle}>
+        Leave the dates empty to export everything. Imports skip sessions you already have.
+      </p>
+
+      {plan && (
+        <div className={DATA_STYLES.preview} style={textStyle} aria-live="polite">
+          <p>
+            {plan.added.length} new {plan.added.length === 1 ? 'session' : 'sessions'} to add
+            {plan.duplicates.length > 0 && `, ${plan.duplicates.length} already in your history`}
+            {plan.errors.length > 0 && `, ${plan.errors.length} could not be read`}.
+          </p>
+          {plan.added.slice(0, PREVIEW_LIMIT).map(session => (
+            <p key={session.id} className="opacity-80">
+              {new Date(session.startedAt).toLocaleDateString()} · {session.routine?.name ?? getPattern(session.patternId, customPatterns)?.name ?? 'Custom'} ({session.pattern}) · {Math.round(session.duration / 60)} min
+            </p>
+          ))}
+          {plan.added.length > PREVIEW_LIMIT && (
+            <p className="opacity-80">…and {plan.added.length - PREVIEW_LIMIT} more</p>
+          )}
+          {plan.errors.slice(0, PREVIEW_LIMIT).map(error => (
+            <p key={error.row}>
+              {error.row > 0 ? `Row ${error.row}: ` : ''}{error.message}
+            </p>
+          ))}
+          {plan.errors.length > PREVIEW_LIMIT && (
+            <p>…and {plan.errors.length - PREVIEW_LIMIT} more rows</p>
+          )}
+          <div className={DATA_STYLES.row}>
+            <button
+              onClick={handleImport}
+              disabled={plan.added.length === 0 || isWorking}
+              className={DATA_STYLES.button}
+              style={buttonStyle}
+            >
+              {isWorking ? 'Importing…' : `Import ${plan.added.length}`}
+            </button>
+            <button onClick={() => setPlan(null)} className={DATA_STYLES.button} style={buttonStyle}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={DATA_STYLES.note} style={textStyle} role="status">{message}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,251 @@
+/**
+ * SessionGoal component that lets users choose how long a session should last.
+ * Features:
+ * - Open-ended sessions that run until stopped
+ * - Preset session lengths (1, 3, 5, 10, 20 minutes)
+ * - Custom session length in minutes
+ * - Cycle count goals ("do N breaths")
+ * - Routine length shown instead when a routine is active
+ * - Theme-aware styling
+ * - Disabled state during active sessions
+ */
+import React, { useId, useState } from 'react';
+import { useBreathingStore } from '../store/breathingStore';
+import { getRoutineDuration } from '../lib/routines';
+
+/**
+ * Preset session lengths in minutes
+ */
+const DURATION_PRESETS = [1, 3, 5, 10, 20] as const;
+
+/**
+ * Limits for a custom session length in minutes
+ */
+const CUSTOM_LIMITS = {
+  min: 1,
+  max: 180
+} as const;
+
+/**
+ * Default and limits for a cycle count goal
+ */
+const CYCLE_LIMITS = {
+  default: 10,
+  min: 1,
+  max: 200
+} as const;
+
+/**
+ * Reads a typed whole number, clamped to its limits
+ */
+const clampInput = (text: string, limits: { min: number; max: number }): number =>
+  Math.max(limits.min, Math.min(limits.max, parseInt(text) || limits.min));
+
+/**
+ * Reads a typed whole number if it is already within its limits
+ */
+const parseInput = (text: string, limits: { min: number; max: number }): number | null => {
+  const value = Number(text);
+  return Number.isInteger(value) && value >= limits.min && value <= limits.max ? value : null;
+};
+
+/**
+ * Styles for the session goal picker
+ * Defines the visual appearance of:
+ * - Main container with blur effect
+ * - Select and input fields
+ * - Labels
+ */
+const GOAL_STYLES = {
+  container: "md:fixed md:right-8 md:top-40 p-3 w-48 transform transition-all duration-300 space-y-2",
+  row: "flex items-center justify-between gap-2",
+  label: "text-xs font-medium",
+  select: "p-1 rounded bg-white/10 border border-white/20 text-xs",
+  input: "w-14 p-1 rounded bg-white/10 border border-white/20 text-sm text-center"
+} as const;
+
+/**
+ * SessionGoal component that lets users choose an open-ended, timed or cycle-count session
+ * Features:
+ * - Preset and custom session lengths
+ * - Cycle count goals
+ * - Typed values clamped to 1-180 minutes or 1-200 cycles when the field is left
+ * - Theme-aware styling with blur effects
+ * - Disabled state during active sessions
+ *
+ * @returns {JSX.Element} The rendered session goal picker
+ */
+export const SessionGoal: React.FC = () => {
+  const { theme, isBreathing, sessionGoal, setSessionGoal, activeRoutine } = useBreathingStore();
+  // The picker is mounted in both the mobile and desktop layouts
+  const fieldId = useId();
+  const goalMinutes = sessionGoal.type === 'duration' ? sessionGoal.seconds / 60 : null;
+  // Set when "Custom time" is chosen while the length is still one of the presets
+  const [isCustomChosen, setIsCustomChosen] = useState(false);
+  const isCustom =
+    goalMinutes !== null && (isCustomChosen || !DURATION_PRESETS.some(preset => preset === goalMinutes));
+  // Text being typed, so the field can be cleared and retyped before it is clamped
+  const [minutesText, setMinutesText] = useState<string | null>(null);
+  const [cyclesText, setCyclesText] = useState<string | null>(null);
+
+  const selectValue =
+    sessionGoal.type === 'open' ? 'open'
+      : sessionGoal.type === 'cycles' ? 'cycles'
+      : isCustom ? 'custom'
+      : String(goalMinutes);
+
+  const handleSelectChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const { value } = e.target;
+    setIsCustomChosen(value === 'custom');
+    if (value === 'open') {
+      setSessionGoal({ type: 'open' });
+    } else if (value === 'cycles') {
+      setSessionGoal({ type: 'cycles', cycles: CYCLE_LIMITS.default });
+    } else if (value === 'custom') {
+      setSessionGoal({ type: 'duration', seconds: (goalMinutes ?? DURATION_PRESETS[0]) * 60 });
+    } else {
+      setSessionGoal({ type: 'duration', seconds: Number(value) * 60 });
+    }
+  };
+
+  // Values already within the limits apply as they are typed; anything else is clamped on blur
+  const handleCustomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { value } = e.target;
+    setMinutesText(value);
+    setIsCustomChosen(true);
+    const minutes = parseInput(value, CUSTOM_LIMITS);
+    if (minutes !== null) setSessionGoal({ type: 'duration', seconds: minutes * 60 });
+  };
+
+  const handleCustomBlur = () => {
+    if (minutesText === null) return;
+    setSessionGoal({ type: 'duration', seconds: clampInput(minutesText, CUSTOM_LIMITS) * 60 });
+    setMinutesText(null);
+  };
+
+  const handleCyclesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { value } = e.target;
+    setCyclesText(value);
+    const cycles = parseInput(value, CYCLE_LIMITS);
+    if (cycles !== null) setSessionGoal({ type: 'cycles', cycles });
+  };
+
+  const handleCyclesBlur = () => {
+    if (cyclesText === null) return;
+    setSessionGoal({ type: 'cycles', cycles: clampInput(cyclesText, CYCLE_LIMITS) });
+    setCyclesText(null);
+  };
+
+  // Enter confirms a typed value the same way as leaving the field
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') e.currentTarget.blur();
+  };
+
+  const fieldStyle = {
+    color: theme.primary,
+    borderColor: `${theme.primary}40`,
+    background: `${theme.primary}10`
+  };
+
+  // A routine's segments set the session length
+  if (activeRoutine) {
+    return (
+      <div
+        className={GOAL_STYLES.container}
+        style={{
+          background: `${theme.background}99`,
+          backdropFilter: 'blur(8px)',
+          border: `1px solid ${theme.primary}40`,
+          borderRadius: '0.75rem',
+          opacity: isBreathing ? 0.5 : 1
+        }}
+      >
+        <div className={GOAL_STYLES.row}>
+          <span className={GOAL_STYLES.label} style={{ color: theme.primary }}>
+            Session:
+          </span>
+          <span className={GOAL_STYLES.label} style={{ color: theme.primary }}>
+            Routine, {getRoutineDuration(activeRoutine) / 60} min
+          </span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={GOAL_STYLES.container}
+      style={{
+        background: `${theme.background}99`,
+        backdropFilter: 'blur(8px)',
+        border: `1px solid ${theme.primary}40`,
+        borderRadius: '0.75rem',
+        opacity: isBreathing ? 0.5 : 1,
+        pointerEvents: isBreathing ? 'none' : 'auto'
+      }}
+    >
+      <div className={GOAL_STYLES.row}>
+        <label htmlFor={`${fieldId}-goal`} className={GOAL_STYLES.label} style={{ color: theme.primary }}>
+          Session:
+        </label>
+        <select
+          id={`${fieldId}-goal`}
+          value={selectValue}
+          onChange={handleSelectChange}
+          className={GOAL_STYLES.select}
+          style={fieldStyle}
+          disabled={isBreathing}
+        >
+          <option value="open">Open-ended</option>
+          {DURATION_PRESETS.map(minutes => (
+            <option key={minutes} value={minutes}>
+              {minutes} min
+            </option>
+          ))}
+          <option value="custom">Custom time</option>
+          <option value="cycles">Cycles</option>
+        </select>
+      </div>
+      {isCustom && goalMinutes !== null && (
+        <div className={GOAL_STYLES.row}>
+          <label htmlFor={`${fieldId}-minutes`} className={GOAL_STYLES.label} style={{ color: theme.primary }}>
+            Minutes:
+          </label>
+          <input
+            id={`${fieldId}-minutes`}
+            type="number"
+            min={CUSTOM_LIMITS.min}
+            max={CUSTOM_LIMITS.max}
+            value={minutesText ?? goalMinutes}
+            onChange={handleCustomChange}
+            onBlur={handleCustomBlur}
+            onKeyDown={handleInputKeyDown}
+            className={GOAL_STYLES.input}
+            style={fieldStyle}
+            disabled={isBreathing}
+          />
+        </div>
+      )}
+      {sessionGoal.type === 'cycles' && (
+        <div className={GOAL_STYLES.row}>
+          <label htmlFor={`${fieldId}-cycles`} className={GOAL_STYLES.label} style={{ color: theme.primary }}>
+            Cycles:
+          </label>
+          <input
+            id={`${fieldId}-cycles`}
+            type="number"
+            min={CYCLE_LIMITS.min}
+            max={CYCLE_LIMITS.max}
+            value={cyclesText ?? sessionGoal.cycles}
+            onChange={handleCyclesChange}
+            onBlur={handleCyclesBlur}
+            onKeyDown={handleInputKeyDown}
+            className={GOAL_STYLES.input}
+            style={fieldStyle}
+            disabled={isBreathing}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+/**
+ * SessionKeeper component that looks after a session while the page is out of view.
+ * Renders nothing.
+ * Features:
+ * - Keeps the screen awake from the countdown until the cool-down ends
+ * - Pauses a running session when its tab is hidden, if asked to
+ */
+import React, { useEffect } from 'react';
+import { useBreathingStore } from '../store/breathingStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { screenWakeLock } from '../lib/wakeLock';
+
+/**
+ * SessionKeeper component that drives the screen wake lock and the hidden tab behavior
+ * @returns {null} Nothing is rendered
+ */
+export const SessionKeeper: React.FC = () => {
+  const { isCountingDown, isSettlingIn, isBreathing, isCoolingDown } = useBreathingStore();
+  const { keepAwake, whenHidden } = useSettingsStore(state => state.background);
+  const isActive = isCountingDown || isSettlingIn || isBreathing || isCoolingDown;
+
+  // Hold the wake lock for as long as any stage of a session is on screen
+  useEffect(() => {
+    if (!keepAwake || !isActive) return;
+    screenWakeLock.acquire();
+    return () => screenWakeLock.release();
+  }, [keepAwake, isActive]);
+
+  // Pause when the tab is hidden; the session stays paused until it is resumed
+  useEffect(() => {
+    if (whenHidden !== 'pause' || !isBreathing) return;
+
+    const handleVisibilityChange = () => {
+      const { isPaused, pauseBreathing } = useBreathingStore.getState();
+      if (document.hidden && !isPaused) pauseBreathing();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [whenHidden, isBreathing]);
+
+  return null;
+};
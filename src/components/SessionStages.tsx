@@ -0,0 +1,136 @@
+/**
+ * Overlays for the stages around a breathing session.
+ * Features:
+ * - Settle-in: rotating prompts to breathe naturally before the pattern starts
+ * - Cool-down: a prompt to let the breath settle while the guide returns to rest
+ * - Time left and a Skip button for both
+ * - Theme-aware styling that leaves the guide visible
+ */
+import React, { useEffect, useState } from 'react';
+import { useBreathingStore } from '../store/breathingStore';
+import { useSettingsStore } from '../store/settingsStore';
+import {
+  COOL_DOWN_PROMPT,
+  SETTLE_IN_PROMPT_INTERVAL,
+  SETTLE_IN_PROMPTS,
+} from '../lib/sessionStages';
+
+/**
+ * Styles for the stage overlays
+ */
+const STAGE_STYLES = {
+  container: "fixed inset-x-0 bottom-40 md:bottom-auto md:top-1/4 flex justify-center pointer-events-none z-40",
+  content: "text-center px-6 py-4 rounded-2xl space-y-2 max-w-[90%]",
+  title: "text-xs font-medium uppercase tracking-wide opacity-70",
+  prompt: "text-lg md:text-2xl font-medium",
+  remaining: "text-xs opacity-70",
+  skip: "pointer-events-auto px-3 py-1 rounded-full text-xs font-medium transition-all duration-300"
+} as const;
+
+/**
+ * Milliseconds between checks of the stage timer
+ */
+const STAGE_TICK_INTERVAL = 250;
+
+/**
+ * Counts whole seconds from when the component mounts, measured from timestamps
+ * so the count stays right when timers are throttled in a background tab
+ * @param duration - Seconds to count to
+ * @param onDone - Called once the duration has passed
+ * @returns {number} Seconds elapsed
+ */
+const useStageTimer = (duration: number, onDone: () => void) => {
+  const [startedAt] = useState(() => Date.now());
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    if (elapsed >= duration) {
+      onDone();
+      return;
+    }
+    const timer = setInterval(
+      () => setElapsed(Math.floor((Date.now() - startedAt) / 1000)),
+      STAGE_TICK_INTERVAL
+    );
+    return () => clearInterval(timer);
+  }, [elapsed, duration, onDone, startedAt]);
+
+  return elapsed;
+};
+
+/**
+ * Props for the StagePrompt component
+ */
+interface StagePromptProps {
+  title: string;
+  prompt: string;
+  remaining: number;
+  onSkip: () => void;
+}
+
+/**
+ * StagePrompt component that lays out a stage's prompt, time left and Skip button
+ */
+const StagePrompt: React.FC<StagePromptProps> = ({ title, prompt, remaining, onSkip }) => {
+  const { theme } = useBreathingStore();
+
+  return (
+    <div className={STAGE_STYLES.container}>
+      <div
+        className={STAGE_STYLES.content}
+        style={{ background: `${theme.background}cc`, color: theme.primary, backdropFilter: 'blur(8px)' }}
+      >
+        <div className={STAGE_STYLES.title}>{title}</div>
+        <div className={STAGE_STYLES.prompt} role="status" aria-live="polite">{prompt}</div>
+        <div className={STAGE_STYLES.remaining}>{remaining}s</div>
+        <button
+          onClick={onSkip}
+          className={STAGE_STYLES.skip}
+          style={{ background: `${theme.primary}20`, border: `1px solid ${theme.primary}40`, color: theme.primary }}
+        >
+          Skip
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * SettleIn component shown between the countdown and the start of the pattern
+ * @returns {JSX.Element} The rendered settle-in prompt
+ */
+export const SettleIn: React.FC = () => {
+  const { startBreathing } = useBreathingStore();
+  // The length is read once, so changing it while settling in has no effect
+  const [duration] = useState(useSettingsStore.getState().stages.settleIn);
+  const elapsed = useStageTimer(duration, startBreathing);
+  const prompt = SETTLE_IN_PROMPTS[Math.floor(elapsed / SETTLE_IN_PROMPT_INTERVAL) % SETTLE_IN_PROMPTS.length];
+
+  return (
+    <StagePrompt
+      title="Settle in"
+      prompt={prompt}
+      remaining={Math.max(0, duration - elapsed)}
+      onSkip={startBreathing}
+    />
+  );
+};
+
+/**
+ * CoolDown component shown after a session while the guide returns to rest
+ * @returns {JSX.Element} The rendered cool-down prompt
+ */
+export const CoolDown: React.FC = () => {
+  const { endCoolDown } = useBreathingStore();
+  const [duration] = useState(useSettingsStore.getState().stages.coolDown);
+  const elapsed = useStageTimer(duration, endCoolDown);
+
+  return (
+    <StagePrompt
+      title="Cool down"
+      prompt={COOL_DOWN_PROMPT}
+      remaining={Math.max(0, duration - elapsed)}
+      onSkip={endCoolDown}
+    />
+  );
+};
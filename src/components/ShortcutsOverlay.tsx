@@ -0,0 +1,108 @@
+/**
+ * ShortcutsOverlay component that lists the keyboard shortcuts.
+ * Features:
+ * - Current key for each rebindable action
+ * - Number keys for the patterns in the pattern list
+ * - Esc to close
+ * - Theme-aware styling
+ */
+import React from 'react';
+import { useBreathingStore } from '../store/breathingStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { BREATHING_PATTERNS } from '../lib/breathingPatterns';
+import {
+  CLOSE_KEY,
+  formatKey,
+  PATTERN_KEYS,
+  SHORTCUT_LABELS,
+  type ShortcutAction,
+} from '../lib/shortcuts';
+
+/**
+ * Styles for the shortcuts overlay
+ */
+const OVERLAY_STYLES = {
+  overlay: "fixed inset-0 flex items-center justify-center z-50",
+  panel: "w-[90%] md:w-96 max-h-[85vh] overflow-y-auto p-4 md:p-6 rounded-2xl transform transition-all duration-300",
+  header: "flex justify-between items-center mb-4",
+  title: "text-lg md:text-xl font-bold",
+  close: "text-sm opacity-60 hover:opacity-100 transition-opacity",
+  list: "space-y-1.5",
+  row: "flex items-center justify-between gap-3 text-xs md:text-sm",
+  key: "min-w-[2rem] px-2 py-0.5 rounded text-center font-mono text-xs"
+} as const;
+
+/**
+ * Props for the ShortcutsOverlay component
+ * - onClose: Called when the overlay should close
+ */
+interface ShortcutsOverlayProps {
+  onClose: () => void;
+}
+
+/**
+ * ShortcutsOverlay component that shows the shortcut cheat sheet in a popup
+ * @param {ShortcutsOverlayProps} props - Component props
+ * @returns {JSX.Element} The rendered overlay
+ */
+export const ShortcutsOverlay: React.FC<ShortcutsOverlayProps> = ({ onClose }) => {
+  const { theme, customPatterns } = useBreathingStore();
+  const shortcuts = useSettingsStore(state => state.shortcuts);
+  const patterns = [...BREATHING_PATTERNS, ...customPatterns].slice(0, PATTERN_KEYS.length);
+
+  const keyStyle = {
+    color: theme.primary,
+    background: `${theme.primary}20`,
+    border: `1px solid ${theme.primary}40`
+  };
+
+  const renderRow = (key: string, label: string) => (
+    <li key={key} className={OVERLAY_STYLES.row} style={{ color: theme.primary }}>
+      <span className="opacity-80">{label}</span>
+      <kbd className={OVERLAY_STYLES.key} style={keyStyle}>{formatKey(key)}</kbd>
+    </li>
+  );
+
+  return (
+    <div
+      className={OVERLAY_STYLES.overlay}
+      style={{ backdropFilter: 'blur(8px)' }}
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Keyboard shortcuts"
+        className={OVERLAY_STYLES.panel}
+        style={{
+          background: `${theme.background}ee`,
+          border: `2px solid ${theme.primary}40`,
+          boxShadow: `0 8px 32px ${theme.primary}40`
+        }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className={OVERLAY_STYLES.header}>
+          <h2 className={OVERLAY_STYLES.title} style={{ color: theme.primary }}>Keyboard Shortcuts</h2>
+          <button
+            onClick={onClose}
+            className={OVERLAY_STYLES.close}
+            style={{ color: theme.primary }}
+            aria-label="Close shortcuts"
+          >
+            ✕
+          </button>
+        </div>
+        <ul className={OVERLAY_STYLES.list}>
+          {(Object.keys(SHORTCUT_LABELS) as ShortcutAction[]).map(action =>
+            renderRow(shortcuts[action], SHORTCUT_LABELS[action])
+          )}
+          {patterns.map((pattern, index) => renderRow(PATTERN_KEYS[index], `Choose ${pattern.name}`))}
+          {renderRow(CLOSE_KEY, 'Close a popup or cancel the countdown')}
+        </ul>
+        <p className="mt-4 text-xs opacity-60" style={{ color: theme.primary }}>
+          Change the keys under Keyboard shortcuts in Settings.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -2,18 +2,18 @@
  * StartButton component that controls the breathing exercise session.
  * Features:
  * - Start/Stop session control
- * - Initial countdown management
- * - Session data persistence
+ * - Pause/Resume during an active session
+ * - Starts the initial countdown
+ * - Session saving on stop
  * - Mobile-responsive styling
  * - Theme-aware button appearance
+ * - Keyboard focus outline and screen reader state
  * 
  * @component
- * @param {StartButtonProps} props - Component props for countdown callbacks
  * @returns {JSX.Element} The rendered start/stop button
  */
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { useBreathingStore } from '../store/breathingStore';
-import { InitialCountdown } from './InitialCountdown';
 
 /**
  * Styles for the start/stop button
@@ -21,9 +21,10 @@ import { InitialCountdown } from './InitialCountdown';
  * - Base button styles with hover effects
  * - Start state with theme-based colors
  * - Stop state with red color scheme
+ * - Pause/Resume button placed below the start/stop button
  */
 const BUTTON_STYLES = {
-  base: "absolute right-0 top-2 md:right-8 md:top-8 px-4 md:px-5 py-2 md:py-2.5 md:rounded-full rounded-[20px] text-white text-sm md:text-base font-medium transition-all duration-300 transform hover:scale-105",
+  base: "absolute right-0 top-2 md:right-8 md:top-8 px-4 md:px-5 py-2 md:py-2.5 md:rounded-full rounded-[20px] text-white text-sm md:text-base font-medium transition-all duration-300 transform motion-safe:hover:scale-105 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2",
   start: (theme: string) => ({
     background: theme,
     boxShadow: `0 4px 14px ${theme}80`
@@ -31,108 +32,68 @@ const BUTTON_STYLES = {
   stop: {
     background: '#ef4444',
     boxShadow: '0 4px 14px #ef444480'
-  }
+  },
+  pause: "absolute right-0 top-14 md:right-8 md:top-24 px-4 md:px-5 py-2 md:py-2.5 md:rounded-full rounded-[20px] text-sm md:text-base font-medium transition-all duration-300 transform motion-safe:hover:scale-105 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2",
+  pauseColors: (theme: string) => ({
+    background: `${theme}40`,
+    border: `1px solid ${theme}40`,
+    boxShadow: `0 4px 14px ${theme}40`,
+    color: theme
+  })
 } as const;
 
-/**
- * Interface for a breathing session
- * Defines the structure of session data stored in localStorage:
- * - Unique identifier
- * - Breathing pattern details
- * - Session duration
- * - Timestamp
- * - Individual phase timings
- */
-interface Session {
-  id: string;
-  pattern: string;
-  duration: number;
-  date: string;
-  inhaleTime: number;
-  holdTime: number;
-  exhaleTime: number;
-}
-
-/**
- * Props for the StartButton component
- * Optional callbacks for countdown events:
- * - onCountdownStart: Triggered when countdown begins
- * - onCountdownEnd: Triggered when countdown completes
- */
-interface StartButtonProps {
-  onCountdownStart?: () => void;
-  onCountdownEnd?: () => void;
-}
-
 /**
  * StartButton component that controls the breathing exercise session
  * Features:
  * - Session start/stop control
- * - Initial countdown management
- * - Session data persistence in localStorage
+ * - Starts the shared initial countdown, shown by the home page
+ * - Session saving through the store's finishBreathing
  * - Theme-aware button styling
- * - Automatic countdown state management
- * 
- * @param {StartButtonProps} props - Component props for countdown callbacks
+ *
  * @returns {JSX.Element} The rendered start/stop button
  */
-export const StartButton: React.FC<StartButtonProps> = ({ onCountdownStart, onCountdownEnd }) => {
-  const { isBreathing, theme, stopBreathing, inhaleTime, holdTime, exhaleTime, elapsedTime } = useBreathingStore();
-  const [showInitialCountdown, setShowInitialCountdown] = useState(false);
-
-  // Reset countdown state when breathing starts
-  useEffect(() => {
-    if (isBreathing) {
-      setShowInitialCountdown(false);
-      onCountdownEnd?.();
-    }
-  }, [isBreathing, onCountdownEnd]);
-
-  /**
-   * Handles the start button click by showing the initial countdown
-   */
-  const handleStart = () => {
-    setShowInitialCountdown(true);
-    onCountdownStart?.();
-  };
+export const StartButton: React.FC = () => {
+  const {
+    isCountingDown,
+    isSettlingIn,
+    isBreathing,
+    isPaused,
+    theme,
+    beginCountdown,
+    finishBreathing,
+    pauseBreathing,
+    resumeBreathing
+  } = useBreathingStore();
 
   /**
    * Handles the stop button click by saving the session and stopping breathing
    */
   const handleStop = () => {
-    // Create new session
-    const newSession: Session = {
-      id: crypto.randomUUID(),
-      pattern: `${inhaleTime}-${holdTime}-${exhaleTime}`,
-      duration: elapsedTime,
-      date: new Date().toISOString(),
-      inhaleTime,
-      holdTime,
-      exhaleTime
-    };
-
-    // Get existing sessions from localStorage
-    const existingSessions = localStorage.getItem('breathing-sessions');
-    const sessions: Session[] = existingSessions ? JSON.parse(existingSessions) : [];
-
-    // Add new session and save to localStorage
-    sessions.push(newSession);
-    localStorage.setItem('breathing-sessions', JSON.stringify(sessions));
-
-    // Stop breathing
-    stopBreathing();
+    finishBreathing();
   };
 
   return (
     <>
       <button
-        onClick={isBreathing ? handleStop : handleStart}
+        type="button"
+        onClick={isBreathing ? handleStop : beginCountdown}
+        aria-disabled={isCountingDown || isSettlingIn}
         className={BUTTON_STYLES.base}
         style={isBreathing ? BUTTON_STYLES.stop : BUTTON_STYLES.start(theme.primary)}
       >
         {isBreathing ? 'Stop' : 'Start'} Breathing
       </button>
-      {showInitialCountdown && <InitialCountdown />}
+      {isBreathing && (
+        <button
+          type="button"
+          onClick={isPaused ? resumeBreathing : pauseBreathing}
+          aria-label={isPaused ? 'Resume session' : 'Pause session'}
+          className={BUTTON_STYLES.pause}
+          style={BUTTON_STYLES.pauseColors(theme.primary)}
+        >
+          {isPaused ? 'Resume' : 'Pause'}
+        </button>
+      )}
     </>
   );
 }; 
\ No newline at end of file
@@ -0,0 +1,43 @@
+/**
+ * VoiceGuide component that speaks guidance during a breathing session.
+ * Renders nothing; it listens to the session engine's phase changes and ticks.
+ * Features:
+ * - "Breathe in", "hold" and "breathe out" at phase boundaries
+ * - Optional spoken countdown of each phase, or the countdown alone
+ * - Optional guidance for the first few cycles only
+ * - Silence while paused and after the session ends
+ */
+import React, { useEffect } from 'react';
+import { useBreathingStore } from '../store/breathingStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { sessionEngine } from '../lib/sessionEngine';
+import { voiceCoach } from '../lib/voiceCoach';
+
+/**
+ * VoiceGuide component that drives the voice coach from the session engine
+ * @returns {null} Nothing is rendered
+ */
+export const VoiceGuide: React.FC = () => {
+  const { isBreathing, isPaused } = useBreathingStore();
+  const voice = useSettingsStore(state => state.voice);
+
+  // Speak at phase changes and count the seconds down on each tick
+  useEffect(() => {
+    if (!voice.enabled) return;
+
+    return sessionEngine.subscribe(({ type, progress }) => {
+      if (type === 'phase') {
+        voiceCoach.announcePhase(progress, voice);
+      } else if (type === 'progress') {
+        voiceCoach.updateCount(progress, voice);
+      }
+    });
+  }, [voice]);
+
+  // Stop talking when the session is paused or stopped
+  useEffect(() => {
+    if (!isBreathing || isPaused) voiceCoach.stop();
+  }, [isBreathing, isPaused]);
+
+  return null;
+};
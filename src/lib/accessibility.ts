@@ -0,0 +1,67 @@
+/**
+ * Accessibility preferences: motion and screen reader announcements.
+ * The motion preference can follow the operating system's `prefers-reduced-motion`
+ * setting or override it either way.
+ */
+
+/**
+ * How much motion the breathing guide uses
+ * - system: Follow the operating system's reduced motion setting
+ * - reduced: Always use the calm 2D guide
+ * - full: Always use the animated sphere
+ */
+export type MotionPreference = 'system' | 'reduced' | 'full';
+
+/**
+ * Labels for the motion preferences
+ */
+export const MOTION_PREFERENCES: Record<MotionPreference, string> = {
+  system: 'Follow system setting',
+  reduced: 'Reduced (2D ring)',
+  full: 'Full (3D sphere)'
+};
+
+/**
+ * Accessibility preferences
+ * - announcements: Announce phase changes and remaining time to screen readers
+ */
+export interface AccessibilitySettings {
+  motion: MotionPreference;
+  announcements: boolean;
+}
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = {
+  motion: 'system',
+  announcements: true
+};
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Returns whether the operating system asks for reduced motion
+ */
+export const getSystemReducedMotion = (): boolean =>
+  typeof window !== 'undefined' && typeof window.matchMedia === 'function'
+    ? window.matchMedia(REDUCED_MOTION_QUERY).matches
+    : false;
+
+/**
+ * Calls the listener whenever the operating system's reduced motion setting changes
+ * @param listener - Called on each change
+ * @returns {() => void} Unsubscribe function
+ */
+export const subscribeToReducedMotion = (listener: () => void) => {
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') return () => {};
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  query.addEventListener('change', listener);
+  return () => query.removeEventListener('change', listener);
+};
+
+/**
+ * Resolves the motion preference against the system setting
+ * @param motion - The user's motion preference
+ * @param systemReducedMotion - Whether the operating system asks for reduced motion
+ * @returns {boolean} Whether to use the reduced motion guide
+ */
+export const shouldReduceMotion = (motion: MotionPreference, systemReducedMotion: boolean) =>
+  motion === 'reduced' || (motion === 'system' && systemReducedMotion);
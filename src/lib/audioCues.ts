@@ -0,0 +1,235 @@
+/**
+ * Synthesized audio cues for the breathing phases, generated with the Web Audio API
+ * so no audio files are needed:
+ * - A rising tone at each inhale
+ * - A soft tick at each hold
+ * - A falling tone at each exhale
+ * - Optionally, a continuous tone whose pitch follows the lung fill level
+ */
+import type { BreathingPhase } from './breathingPhases';
+
+/**
+ * Identifiers of the available tone sets
+ */
+export type ToneSetId = 'chime' | 'soft' | 'bowl' | 'digital';
+
+/**
+ * Sound of a tone set
+ * - waveform: Oscillator waveform
+ * - inhale / exhale: Start and end frequency of the cue in Hz
+ * - tick: Frequency of the hold tick in Hz
+ * - length: Longest cue length in seconds (shorter phases get shorter cues)
+ * - partials: Extra oscillators as multiples of the base frequency, for a richer sound
+ */
+interface ToneSet {
+  name: string;
+  waveform: OscillatorType;
+  inhale: [number, number];
+  exhale: [number, number];
+  tick: number;
+  length: number;
+  partials: number[];
+}
+
+/**
+ * Available tone sets
+ */
+export const TONE_SETS: Record<ToneSetId, ToneSet> = {
+  chime: {
+    name: 'Chime',
+    waveform: 'sine',
+    inhale: [523.25, 783.99],
+    exhale: [783.99, 523.25],
+    tick: 1046.5,
+    length: 1.2,
+    partials: [2, 3]
+  },
+  soft: {
+    name: 'Soft',
+    waveform: 'sine',
+    inhale: [220, 330],
+    exhale: [330, 220],
+    tick: 440,
+    length: 1.5,
+    partials: []
+  },
+  bowl: {
+    name: 'Singing bowl',
+    waveform: 'sine',
+    inhale: [196, 220],
+    exhale: [220, 196],
+    tick: 392,
+    length: 2.5,
+    partials: [2.76, 5.4]
+  },
+  digital: {
+    name: 'Digital',
+    waveform: 'triangle',
+    inhale: [660, 990],
+    exhale: [990, 660],
+    tick: 1320,
+    length: 0.4,
+    partials: []
+  }
+};
+
+/**
+ * Audio cue preferences
+ * - volumes: Volume of each cue (0-1); holds share one volume
+ * - continuousTone: Play a tone whose pitch follows the breath
+ */
+export interface AudioSettings {
+  enabled: boolean;
+  toneSet: ToneSetId;
+  volumes: {
+    inhale: number;
+    hold: number;
+    exhale: number;
+  };
+  continuousTone: boolean;
+  continuousVolume: number;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  enabled: false,
+  toneSet: 'chime',
+  volumes: {
+    inhale: 0.6,
+    hold: 0.4,
+    exhale: 0.6
+  },
+  continuousTone: false,
+  continuousVolume: 0.3
+};
+
+/**
+ * Envelope and loudness settings shared by all cues
+ */
+const ENVELOPE = {
+  attack: 0.02,
+  tickLength: 0.15,
+  maxGain: 0.3,
+  partialGain: 0.25,
+  toneSmoothing: 0.05
+} as const;
+
+/**
+ * Public interface of the audio cue player
+ */
+export interface AudioCuePlayer {
+  playCue: (phase: BreathingPhase, settings: AudioSettings) => void;
+  setContinuousLevel: (level: number, settings: AudioSettings) => void;
+  stopContinuous: () => void;
+}
+
+/**
+ * Creates the default audio context, or null where Web Audio is unavailable
+ */
+export const createDefaultContext = (): AudioContext | null =>
+  typeof AudioContext === 'undefined' ? null : new AudioContext();
+
+/**
+ * Creates an audio cue player
+ * The audio context is created on first use, after the user has interacted with the page.
+ *
+ * @param createContext - Creates the audio context; replaceable for testing
+ * @returns {AudioCuePlayer} A new player
+ */
+export const createAudioCuePlayer = (
+  createContext: () => AudioContext | null = createDefaultContext
+): AudioCuePlayer => {
+  let context: AudioContext | null = null;
+  let continuous: { oscillator: OscillatorNode; gain: GainNode } | null = null;
+
+  const getContext = () => {
+    context ??= createContext();
+    if (context?.state === 'suspended') void context.resume();
+    return context;
+  };
+
+  const playCue = (phase: BreathingPhase, settings: AudioSettings) => {
+    const isHold = phase.type === 'hold-full' || phase.type === 'hold-empty';
+    const volume = isHold
+      ? settings.volumes.hold
+      : settings.volumes[phase.type === 'inhale' ? 'inhale' : 'exhale'];
+    const ctx = getContext();
+    if (!ctx || volume <= 0) return;
+
+    const toneSet = TONE_SETS[settings.toneSet];
+    const [from, to] = isHold
+      ? [toneSet.tick, toneSet.tick]
+      : phase.type === 'inhale' ? toneSet.inhale : toneSet.exhale;
+    const length = isHold ? ENVELOPE.tickLength : Math.min(toneSet.length, phase.duration);
+    const start = ctx.currentTime;
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(volume * ENVELOPE.maxGain, start + ENVELOPE.attack);
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + length);
+    gain.connect(ctx.destination);
+
+    [1, ...toneSet.partials].forEach((ratio, index) => {
+      const oscillator = ctx.createOscillator();
+      oscillator.type = toneSet.waveform;
+      oscillator.frequency.setValueAtTime(from * ratio, start);
+      oscillator.frequency.exponentialRampToValueAtTime(to * ratio, start + length);
+
+      if (index === 0) {
+        oscillator.connect(gain);
+      } else {
+        const partialGain = ctx.createGain();
+        partialGain.gain.value = ENVELOPE.partialGain / index;
+        oscillator.connect(partialGain).connect(gain);
+      }
+      oscillator.start(start);
+      oscillator.stop(start + length + 0.05);
+    });
+  };
+
+  /**
+   * Moves the continuous tone to the pitch for a fill level, starting it if needed
+   * @param level - Lung fill level (0-1)
+   * @param settings - The audio settings
+   */
+  const setContinuousLevel = (level: number, settings: AudioSettings) => {
+    const ctx = getContext();
+    if (!ctx) return;
+
+    if (!continuous) {
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      gain.gain.value = 0;
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start();
+      continuous = { oscillator, gain };
+    }
+
+    const toneSet = TONE_SETS[settings.toneSet];
+    const [low, high] = toneSet.inhale;
+    continuous.oscillator.type = toneSet.waveform;
+    continuous.oscillator.frequency.setTargetAtTime(low + (high - low) * level, ctx.currentTime, ENVELOPE.toneSmoothing);
+    continuous.gain.gain.setTargetAtTime(
+      settings.continuousVolume * ENVELOPE.maxGain,
+      ctx.currentTime,
+      ENVELOPE.toneSmoothing
+    );
+  };
+
+  /**
+   * Fades out and stops the continuous tone
+   */
+  const stopContinuous = () => {
+    if (!continuous || !context) return;
+    const { oscillator, gain } = continuous;
+    gain.gain.setTargetAtTime(0, context.currentTime, ENVELOPE.toneSmoothing);
+    oscillator.stop(context.currentTime + ENVELOPE.toneSmoothing * 5);
+    continuous = null;
+  };
+
+  return { playCue, setContinuousLevel, stopContinuous };
+};
+
+/**
+ * Shared audio cue player used by the app
+ */
+export const audioCuePlayer = createAudioCuePlayer();
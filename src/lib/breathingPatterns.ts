@@ -0,0 +1,239 @@
+/**
+ * Registry of the predefined breathing patterns.
+ * Every screen resolves pattern names, descriptions, themes and background
+ * information from here, so a pattern is renamed or added in one place.
+ * Patterns are identified by a stable ID that is stored with sessions and routines;
+ * lookups also cover the user's saved custom patterns.
+ */
+import {
+  arePhasesEqual,
+  areProgressionsEqual,
+  createPhases,
+  type BreathingPhase,
+  type PatternProgression,
+} from './breathingPhases';
+
+/**
+ * Stable identifiers of the predefined patterns
+ */
+export type PatternId = 'calm' | 'focus' | 'balance' | 'deep' | 'unwind' | 'slow-down' | 'box' | 'sigh';
+
+/**
+ * A named color theme for a pattern
+ */
+export interface PatternTheme {
+  name: string;
+  primary: string;
+  secondary: string;
+  background: string;
+}
+
+/**
+ * Fields shared by predefined and custom patterns:
+ * - Stable ID
+ * - Name and description
+ * - Ordered list of breathing phases
+ * - Optional progression of the timings over the session
+ * - Associated theme colors
+ */
+export interface PatternDefinition {
+  id: string;
+  name: string;
+  description: string;
+  phases: BreathingPhase[];
+  progression?: PatternProgression;
+  theme: PatternTheme;
+}
+
+/**
+ * Type definition for a predefined breathing pattern
+ * Adds the background shown on the About page (how it works, why its colors)
+ */
+export interface BreathingPattern extends PatternDefinition {
+  id: PatternId;
+  science: string;
+  colorPsychology: string;
+}
+
+/**
+ * Predefined breathing patterns with their associated themes and timing
+ * Each pattern is designed for specific purposes:
+ * - Calm: Stress relief and relaxation
+ * - Focus: Concentration and mental clarity
+ * - Balance: Emotional stability and grounding
+ * - Deep: Anxiety relief and deep relaxation
+ * - Unwind: Exhale stretches from 4 to 8 seconds, one second per minute
+ * - Slow Down: Breathing slows from 6 to 4.5 breaths per minute over ten minutes
+ * - Box: Four equal sides, including a hold with the lungs empty
+ * - Physiological Sigh: A double inhale followed by a long exhale
+ */
+export const BREATHING_PATTERNS: BreathingPattern[] = [
+  {
+    id: 'calm',
+    name: 'Calm',
+    description: 'Used for stress relief and relaxation',
+    phases: createPhases(4, 4, 6),
+    theme: {
+      name: 'Ocean',
+      primary: '#64b5f6',
+      secondary: '#80cbc4',
+      background: '#e0f7fa',
+    },
+    science: 'The 4-4-6 pattern activates the parasympathetic nervous system, reducing heart rate and blood pressure. The longer exhale (6 seconds) helps release tension and promotes relaxation.',
+    colorPsychology: 'Blue is associated with calmness, peace, and tranquility. It has been shown to lower blood pressure and heart rate, making it perfect for relaxation exercises.'
+  },
+  {
+    id: 'focus',
+    name: 'Focus',
+    description: 'Used for concentration and mental clarity',
+    phases: createPhases(4, 7, 8),
+    theme: {
+      name: 'Forest',
+      primary: '#81c784',
+      secondary: '#a5d6a7',
+      background: '#c8e6c9',
+    },
+    science: 'The extended hold (7 seconds) increases oxygen levels in the brain, while the longer exhale (8 seconds) helps clear CO2. This pattern improves focus by optimizing brain oxygenation.',
+    colorPsychology: 'Green represents growth, harmony, and balance. It\'s known to improve focus and concentration while reducing eye strain, making it ideal for mental clarity exercises.'
+  },
+  {
+    id: 'balance',
+    name: 'Balance',
+    description: 'Used for emotional stability and grounding',
+    phases: createPhases(4, 4, 4),
+    theme: {
+      name: 'Lavender',
+      primary: '#9575cd',
+      secondary: '#b39ddb',
+      background: '#e1bee7',
+    },
+    science: 'The equal 4-4-4 ratio creates a balanced breathing rhythm that helps regulate the autonomic nervous system. This pattern is particularly effective for emotional regulation.',
+    colorPsychology: 'Purple combines the calm of blue and the energy of red. It\'s associated with wisdom, creativity, and emotional balance, making it perfect for equilibrium exercises.'
+  },
+  {
+    id: 'deep',
+    name: 'Deep',
+    description: 'Used for anxiety relief and deep relaxation',
+    phases: createPhases(6, 2, 7),
+    theme: {
+      name: 'Sunset',
+      primary: '#ff7043',
+      secondary: '#ffab91',
+      background: '#ffecb3',
+    },
+    science: 'The long inhale (6 seconds) fills the lungs completely, and the short hold (2 seconds) keeps the rhythm flowing. The even longer exhale (7 seconds) slows the heart rate and eases anxiety.',
+    colorPsychology: 'Warm sunset tones are associated with comfort, safety, and the end of the day. They help the body settle, making them a good fit for deep relaxation.'
+  },
+  {
+    id: 'unwind',
+    name: 'Unwind',
+    description: 'Exhale lengthens by a second each minute',
+    phases: createPhases(4, 4, 4),
+    progression: {
+      to: createPhases(4, 4, 8),
+      duration: 240,
+      step: 60
+    },
+    theme: {
+      name: 'Twilight',
+      primary: '#7986cb',
+      secondary: '#9fa8da',
+      background: '#e8eaf6',
+    },
+    science: 'Starting from an even 4-4-4 rhythm, the exhale grows by one second each minute until it is twice as long as the inhale. Lengthening the exhale gradually shifts the body towards rest without straining the breath.',
+    colorPsychology: 'Twilight indigo marks the transition from day to night. It encourages winding down and letting go of the day\'s activity.'
+  },
+  {
+    id: 'slow-down',
+    name: 'Slow Down',
+    description: 'Gradually slows from 6 to 4.5 breaths per minute',
+    phases: createPhases(4, 0, 6),
+    progression: {
+      to: createPhases(5.3, 0, 8),
+      duration: 600
+    },
+    theme: {
+      name: 'Lagoon',
+      primary: '#4db6ac',
+      secondary: '#b2dfdb',
+      background: '#e0f2f1',
+    },
+    science: 'Over ten minutes the breathing rate eases from 6 to about 4.5 breaths per minute. Slow breathing around this rate is linked to higher heart rate variability and a calmer nervous system.',
+    colorPsychology: 'Lagoon teal blends the calm of blue with the balance of green. It evokes still, shallow water and supports slow, steady breathing.'
+  },
+  {
+    id: 'box',
+    name: 'Box',
+    description: 'Used for composure under pressure',
+    phases: createPhases(4, 4, 4, 4),
+    theme: {
+      name: 'Stone',
+      primary: '#8d6e63',
+      secondary: '#bcaaa4',
+      background: '#efebe9',
+    },
+    science: 'Box breathing gives the inhale, the hold, the exhale and the hold with empty lungs four seconds each. The steady count and the pause after the exhale slow the breathing rate and give the mind a simple rhythm to hold on to.',
+    colorPsychology: 'Earthy stone browns feel solid and dependable. They support a sense of steadiness and control.'
+  },
+  {
+    id: 'sigh',
+    name: 'Physiological Sigh',
+    description: 'Double inhale and long exhale for quick relief',
+    phases: [
+      { type: 'inhale', duration: 2, level: 0.8 },
+      { type: 'inhale', duration: 1 },
+      { type: 'exhale', duration: 6 },
+    ],
+    theme: {
+      name: 'Blossom',
+      primary: '#f06292',
+      secondary: '#f8bbd0',
+      background: '#fce4ec',
+    },
+    science: 'A deep inhale is topped up with a short second inhale to fill the lungs completely, then released in a long exhale. The second inhale reopens collapsed air sacs, and the long exhale offloads carbon dioxide, easing stress within a few breaths.',
+    colorPsychology: 'Soft pink is associated with warmth and comfort. It helps the body let go of tension and feel soothed.'
+  }
+];
+
+/**
+ * Themes that can be chosen for custom patterns: the predefined patterns' themes
+ * and a neutral grey
+ */
+export const PATTERN_THEMES: PatternTheme[] = [
+  ...BREATHING_PATTERNS.map(pattern => pattern.theme),
+  {
+    name: 'Slate',
+    primary: '#6B7280',
+    secondary: '#9CA3AF',
+    background: '#F3F4F6',
+  }
+];
+
+/**
+ * Gets a pattern by its ID
+ * @param id - The pattern ID, if any
+ * @param customPatterns - The user's saved custom patterns
+ * @returns {PatternDefinition | undefined} The pattern, or undefined for unsaved or deleted patterns
+ */
+export const getPattern = (
+  id?: string | null,
+  customPatterns: PatternDefinition[] = []
+): PatternDefinition | undefined =>
+  BREATHING_PATTERNS.find(pattern => pattern.id === id) ??
+  customPatterns.find(pattern => pattern.id === id);
+
+/**
+ * Finds the predefined pattern with the given timings.
+ * Used for records saved before patterns were stored by ID.
+ *
+ * @param phases - The starting phases
+ * @param progression - The pattern's progression, if any
+ * @returns {BreathingPattern | undefined} The matching pattern, if any
+ */
+export const findPatternByPhases = (
+  phases: BreathingPhase[],
+  progression?: PatternProgression | null
+): BreathingPattern | undefined =>
+  BREATHING_PATTERNS.find(
+    pattern => arePhasesEqual(pattern.phases, phases) && areProgressionsEqual(pattern.progression, progression)
+  );
@@ -0,0 +1,270 @@
+/**
+ * Breathing phase model shared by the store, the visualisation and session records.
+ * A breathing pattern is an ordered list of typed phases that repeats every cycle:
+ * - inhale: lungs fill up to `level` (full by default); consecutive inhales model
+ *   sub-inhales such as the double inhale of the physiological sigh
+ * - hold-full: breath held with the lungs full
+ * - exhale: lungs empty completely
+ * - hold-empty: breath held with the lungs empty (the fourth side of box breathing)
+ *
+ * A pattern may also carry a progression that moves its timings towards a target
+ * over the course of a session.
+ */
+
+/**
+ * Type of a single breathing phase
+ */
+export type PhaseType = 'inhale' | 'hold-full' | 'exhale' | 'hold-empty';
+
+/**
+ * A single step of a breathing pattern
+ * - duration: Length of the phase in seconds
+ * - level: Inhale only, lung fill (0-1) reached at the end of the phase
+ */
+export interface BreathingPhase {
+  type: PhaseType;
+  duration: number;
+  level?: number;
+}
+
+/**
+ * How a pattern's timings change over a session
+ * - to: Timings reached at the end, with the same phase types in the same order
+ * - duration: Seconds over which the pattern moves from its start to its end timings
+ * - step: Seconds between changes; without it the timings change continuously
+ */
+export interface PatternProgression {
+  to: BreathingPhase[];
+  duration: number;
+  step?: number;
+}
+
+/**
+ * Display names for each phase type
+ */
+export const PHASE_LABELS: Record<PhaseType, string> = {
+  inhale: 'Inhale',
+  'hold-full': 'Hold',
+  exhale: 'Exhale',
+  'hold-empty': 'Hold',
+};
+
+/**
+ * Short instructions for each phase type, used as "4s to inhale"
+ */
+export const PHASE_INSTRUCTIONS: Record<PhaseType, string> = {
+  inhale: 'to inhale',
+  'hold-full': 'to hold',
+  exhale: 'to exhale',
+  'hold-empty': 'to hold empty',
+};
+
+/**
+ * Resolution of phase durations in seconds
+ */
+export const DURATION_STEP = 0.1;
+
+/**
+ * Rounds a duration to the 0.1s resolution used for phase timings,
+ * removing floating point noise such as 5.499999999
+ * @param seconds - The duration in seconds
+ * @returns {number} The rounded duration
+ */
+export const roundDuration = (seconds: number): number =>
+  Math.round(seconds / DURATION_STEP) / (1 / DURATION_STEP);
+
+/**
+ * Builds a phase list from classic inhale-hold-exhale(-hold) timings.
+ * Holds of zero seconds are left out.
+ *
+ * @param inhale - Inhale duration in seconds
+ * @param hold - Hold duration after the inhale in seconds
+ * @param exhale - Exhale duration in seconds
+ * @param holdEmpty - Hold duration after the exhale in seconds
+ * @returns {BreathingPhase[]} The ordered list of phases
+ */
+export const createPhases = (
+  inhale: number,
+  hold: number,
+  exhale: number,
+  holdEmpty = 0
+): BreathingPhase[] => {
+  const phases: BreathingPhase[] = [{ type: 'inhale', duration: inhale }];
+  if (hold > 0) phases.push({ type: 'hold-full', duration: hold });
+  phases.push({ type: 'exhale', duration: exhale });
+  if (holdEmpty > 0) phases.push({ type: 'hold-empty', duration: holdEmpty });
+  return phases;
+};
+
+/**
+ * Gets the length of one full breathing cycle
+ * @param phases - The breathing pattern
+ * @returns {number} The cycle duration in seconds
+ */
+export const getCycleDuration = (phases: BreathingPhase[]): number =>
+  phases.reduce((total, phase) => total + phase.duration, 0);
+
+/**
+ * Formats a pattern as its phase durations, e.g. "4-4-6" or "4-4-4-4"
+ * @param phases - The breathing pattern
+ * @returns {string} The formatted timing string
+ */
+export const formatPattern = (phases: BreathingPhase[]): string =>
+  phases.map(phase => phase.duration).join('-');
+
+/**
+ * Formats a progressive pattern as its start and end timings, e.g. "4-4-4 → 4-4-8"
+ * @param phases - The starting phases
+ * @param progression - The pattern's progression, if any
+ * @returns {string} The formatted timing string
+ */
+export const formatProgression = (
+  phases: BreathingPhase[],
+  progression?: PatternProgression | null
+): string =>
+  progression ? `${formatPattern(phases)} → ${formatPattern(progression.to)}` : formatPattern(phases);
+
+/**
+ * Gets a progressive pattern's phases at a point in the session.
+ * Durations are interpolated from the start to the end timings and rounded to 0.1s.
+ *
+ * @param phases - The starting phases
+ * @param progression - The pattern's progression
+ * @param elapsed - Seconds since the session started
+ * @returns {BreathingPhase[]} The phases to use from that point
+ */
+export const getProgressedPhases = (
+  phases: BreathingPhase[],
+  progression: PatternProgression,
+  elapsed: number
+): BreathingPhase[] => {
+  const time = progression.step
+    ? Math.floor(elapsed / progression.step) * progression.step
+    : elapsed;
+  const factor = Math.min(Math.max(time / progression.duration, 0), 1);
+
+  return phases.map((phase, index) => {
+    const target = progression.to[index]?.duration ?? phase.duration;
+    const duration = roundDuration(phase.duration + (target - phase.duration) * factor);
+    return { ...phase, duration };
+  });
+};
+
+/**
+ * Checks whether two patterns have the same phases in the same order
+ * @param a - First pattern
+ * @param b - Second pattern
+ * @returns {boolean} True when both patterns are identical
+ */
+export const arePhasesEqual = (a: BreathingPhase[], b: BreathingPhase[]): boolean =>
+  a.length === b.length &&
+  a.every(
+    (phase, index) =>
+      phase.type === b[index].type &&
+      phase.duration === b[index].duration &&
+      (phase.level ?? 1) === (b[index].level ?? 1)
+  );
+
+/**
+ * Checks whether two progressions are identical
+ * @param a - First progression, if any
+ * @param b - Second progression, if any
+ * @returns {boolean} True when both are absent or both are identical
+ */
+export const areProgressionsEqual = (
+  a?: PatternProgression | null,
+  b?: PatternProgression | null
+): boolean => {
+  if (!a || !b) return !a && !b;
+  return a.duration === b.duration && a.step === b.step && arePhasesEqual(a.to, b.to);
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Checks that a stored value is a plain object, before its fields are read
+ * @param value - The stored value
+ * @returns {boolean} True for objects other than null and arrays
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks that a stored value is a non-empty list of valid phases
+ * @param value - The stored value
+ * @returns {boolean} True when every phase has a known type and a positive duration
+ */
+export const isPhaseList = (value: unknown): value is BreathingPhase[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every(
+    phase =>
+      isRecord(phase) &&
+      typeof phase.type === 'string' &&
+      phase.type in PHASE_LABELS &&
+      isFiniteNumber(phase.duration) &&
+      phase.duration > 0
+  );
+
+/**
+ * Checks that a stored value is a valid progression for a pattern.
+ * Its target phases are paired with the pattern's by position, so they must
+ * match them in number and type.
+ *
+ * @param value - The stored value
+ * @param phases - The pattern's starting phases
+ * @returns {boolean} True when it has matching target phases, a positive duration
+ *   and, if stepped, a positive step
+ */
+export const isProgression = (value: unknown, phases: BreathingPhase[]): value is PatternProgression => {
+  if (!isRecord(value)) return false;
+  const { to, duration, step } = value;
+  return (
+    isPhaseList(to) &&
+    to.length === phases.length &&
+    to.every((phase, index) => phase.type === phases[index].type) &&
+    isFiniteNumber(duration) &&
+    duration > 0 &&
+    (step === undefined || (isFiniteNumber(step) && step > 0))
+  );
+};
+
+/**
+ * Gets the lung fill level (0 = empty, 1 = full) at a point within a phase.
+ * Fill carries over between phases, so a sub-inhale starts where the previous
+ * inhale stopped and a hold keeps whatever level it started at.
+ *
+ * @param phases - The breathing pattern
+ * @param index - Index of the current phase
+ * @param progress - Progress through the current phase (0-1)
+ * @returns {number} The fill level between 0 and 1
+ */
+export const getFillLevel = (phases: BreathingPhase[], index: number, progress: number): number => {
+  let level = 0;
+  for (let i = 0; i < index; i++) {
+    level = getPhaseEndLevel(phases[i], level);
+  }
+  const phase = phases[index];
+  if (!phase) return level;
+  const end = getPhaseEndLevel(phase, level);
+  return level + (end - level) * Math.min(Math.max(progress, 0), 1);
+};
+
+/**
+ * Gets the fill level at the end of a phase
+ * @param phase - The phase
+ * @param startLevel - Fill level at the start of the phase
+ * @returns {number} The fill level between 0 and 1
+ */
+const getPhaseEndLevel = (phase: BreathingPhase, startLevel: number): number => {
+  switch (phase.type) {
+    case 'inhale':
+      return phase.level ?? 1;
+    case 'exhale':
+      return 0;
+    case 'hold-full':
+    case 'hold-empty':
+      return startLevel;
+  }
+};
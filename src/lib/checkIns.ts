@@ -0,0 +1,91 @@
+/**
+ * Mood and stress check-ins before and after a session.
+ * - A stress level from 1 to 10 and a mood, asked before the countdown and after stopping
+ * - Notes and tags, such as "work" or "before sleep", added with the check-in afterwards
+ * Both check-ins can be skipped; they are saved on the session they belong to.
+ */
+
+/**
+ * Moods that can be chosen in a check-in
+ */
+export type Mood = 'calm' | 'content' | 'neutral' | 'tired' | 'anxious' | 'low';
+
+/**
+ * Labels and emoji for the moods, in the order they are offered
+ */
+export const MOODS: Record<Mood, { label: string; emoji: string }> = {
+  calm: { label: 'Calm', emoji: '😌' },
+  content: { label: 'Content', emoji: '🙂' },
+  neutral: { label: 'Neutral', emoji: '😐' },
+  tired: { label: 'Tired', emoji: '😴' },
+  anxious: { label: 'Anxious', emoji: '😟' },
+  low: { label: 'Low', emoji: '😔' }
+};
+
+/**
+ * Range of the stress scale, and where its slider starts
+ */
+export const STRESS_SCALE = {
+  min: 1,
+  max: 10,
+  initial: 5
+} as const;
+
+/**
+ * Tags offered with the check-in after a session
+ */
+export const SUGGESTED_TAGS = ['work', 'before sleep', 'morning', 'after exercise', 'anxious moment'] as const;
+
+/**
+ * How the user felt at one point
+ */
+export interface MoodCheckIn {
+  stress: number;
+  mood: Mood;
+}
+
+/**
+ * The check-ins of one session; either may have been skipped
+ */
+export interface SessionCheckIn {
+  before?: MoodCheckIn;
+  after?: MoodCheckIn;
+}
+
+/**
+ * What the user gives in the check-in after a session; any part may be left out
+ */
+export interface SessionReflection {
+  after?: MoodCheckIn;
+  notes: string;
+  tags: string[];
+}
+
+/**
+ * Check-in preferences
+ * - enabled: Ask for a check-in before and after each session
+ */
+export interface CheckInSettings {
+  enabled: boolean;
+}
+
+export const DEFAULT_CHECK_IN_SETTINGS: CheckInSettings = {
+  enabled: false
+};
+
+/**
+ * Reads tags typed as a list separated by commas or semicolons
+ * @param text - The typed tags
+ * @returns {string[]} The tags, trimmed, lowercased and without repeats
+ */
+export const parseTags = (text: string): string[] => [
+  ...new Set(text.split(/[,;]/).map(tag => tag.trim().toLowerCase()).filter(tag => tag !== ''))
+];
+
+/**
+ * Gets how much a session lowered the user's stress
+ * @param checkIn - The session's check-ins
+ * @returns {number | null} Stress before minus stress after, or null without both check-ins
+ */
+export const getStressReduction = (checkIn: SessionCheckIn | undefined): number | null =>
+  checkIn?.before && checkIn.after ? checkIn.before.stress - checkIn.after.stress : null;
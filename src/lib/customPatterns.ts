@@ -0,0 +1,57 @@
+/**
+ * Library of the user's saved custom breathing patterns.
+ * Custom patterns are stored as a JSON array in localStorage under `breathing-custom-patterns`.
+ * A saved pattern with missing timings or theme colors is left out of the library.
+ */
+import { isPhaseList, isProgression, isRecord } from './breathingPhases';
+import type { PatternDefinition } from './breathingPatterns';
+
+/**
+ * A saved custom pattern
+ * Adds the date it was created to the common pattern fields
+ */
+export interface CustomPattern extends PatternDefinition {
+  createdAt: string;
+}
+
+const STORAGE_KEY = 'breathing-custom-patterns';
+
+/**
+ * Checks that a stored value is a valid custom pattern
+ */
+const isCustomPattern = (value: unknown): value is CustomPattern =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.description === 'string' &&
+  typeof value.createdAt === 'string' &&
+  isPhaseList(value.phases) &&
+  (value.progression === undefined || isProgression(value.progression, value.phases)) &&
+  isRecord(value.theme) &&
+  typeof value.theme.name === 'string' &&
+  typeof value.theme.primary === 'string' &&
+  typeof value.theme.secondary === 'string' &&
+  typeof value.theme.background === 'string';
+
+/**
+ * Loads the saved custom patterns
+ * @returns {CustomPattern[]} The valid saved patterns, oldest first, or none if they can't be read
+ */
+export const loadCustomPatterns = (): CustomPattern[] => {
+  const storedPatterns = localStorage.getItem(STORAGE_KEY);
+  if (!storedPatterns) return [];
+  try {
+    const parsed: unknown = JSON.parse(storedPatterns);
+    return Array.isArray(parsed) ? parsed.filter(isCustomPattern) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Replaces the saved custom patterns
+ * @param patterns - The patterns to save
+ */
+export const saveCustomPatterns = (patterns: CustomPattern[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(patterns));
+};
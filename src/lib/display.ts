@@ -0,0 +1,59 @@
+/**
+ * Display preferences for the home screen's breathing guide.
+ */
+
+/**
+ * What the home screen shows during a session
+ * - sphere: The breathing sphere (or the 2D ring when reduced motion is preferred)
+ * - sphere-countdown: The sphere with a large per-phase countdown over it
+ * - countdown: The per-phase countdown on its own
+ */
+export type DisplayMode = 'sphere' | 'sphere-countdown' | 'countdown';
+
+/**
+ * Whether the phase timer counts the seconds left or the seconds gone
+ */
+export type CountStyle = 'down' | 'up';
+
+/**
+ * Display preferences
+ * - progressArc: Draw an arc around the countdown that fills over each phase
+ */
+export interface DisplaySettings {
+  mode: DisplayMode;
+  countStyle: CountStyle;
+  progressArc: boolean;
+}
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  mode: 'sphere',
+  countStyle: 'down',
+  progressArc: false
+};
+
+/**
+ * Labels for the display modes
+ */
+export const DISPLAY_MODES: Record<DisplayMode, string> = {
+  sphere: 'Sphere only',
+  'sphere-countdown': 'Sphere with countdown',
+  countdown: 'Countdown only'
+};
+
+/**
+ * Labels for the count styles
+ */
+export const COUNT_STYLES: Record<CountStyle, string> = {
+  down: 'Down (time left)',
+  up: 'Up (time gone)'
+};
+
+/**
+ * Returns whether a display mode shows the sphere
+ */
+export const showsSphere = (mode: DisplayMode) => mode !== 'countdown';
+
+/**
+ * Returns whether a display mode shows the phase countdown
+ */
+export const showsCountdown = (mode: DisplayMode) => mode !== 'sphere';
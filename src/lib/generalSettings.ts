@@ -0,0 +1,66 @@
+/**
+ * General preferences: the pattern the app opens with and the color theme.
+ * The last pattern chosen is remembered here as well, so the app can reopen with it.
+ */
+import {
+  BREATHING_PATTERNS,
+  getPattern,
+  PATTERN_THEMES,
+  type PatternDefinition,
+  type PatternTheme,
+} from './breathingPatterns';
+
+/**
+ * The value of the pattern and theme preferences that follows the user's choices
+ * - LAST_PATTERN: Open with the last pattern chosen
+ * - PATTERN_THEME: Use each pattern's own theme
+ */
+export const LAST_PATTERN = 'last';
+export const PATTERN_THEME = 'pattern';
+
+/**
+ * General preferences
+ * - defaultPattern: ID of the pattern to open with, or LAST_PATTERN
+ * - theme: Name of a theme used for every pattern, or PATTERN_THEME
+ * - lastPatternId: ID of the last pattern chosen, updated automatically
+ */
+export interface GeneralSettings {
+  defaultPattern: string;
+  theme: string;
+  lastPatternId: string | null;
+}
+
+export const DEFAULT_GENERAL_SETTINGS: GeneralSettings = {
+  defaultPattern: LAST_PATTERN,
+  theme: PATTERN_THEME,
+  lastPatternId: null
+};
+
+/**
+ * Returns the pattern to open the app with
+ * Falls back to the first predefined pattern when the chosen one has been deleted.
+ *
+ * @param settings - The general preferences
+ * @param customPatterns - The user's saved custom patterns
+ * @returns {PatternDefinition} The starting pattern
+ */
+export const getStartupPattern = (
+  settings: GeneralSettings,
+  customPatterns: PatternDefinition[]
+): PatternDefinition =>
+  getPattern(
+    settings.defaultPattern === LAST_PATTERN ? settings.lastPatternId : settings.defaultPattern,
+    customPatterns
+  ) ?? BREATHING_PATTERNS[0];
+
+/**
+ * Applies the theme preference to a pattern's theme
+ * @param patternTheme - The theme of the current pattern
+ * @param themeName - The theme preference
+ * @returns {PatternTheme} The chosen theme, or the pattern's own
+ */
+export const resolveTheme = <T extends Omit<PatternTheme, 'name'>>(
+  patternTheme: T,
+  themeName: string
+): T | PatternTheme =>
+  (themeName !== PATTERN_THEME && PATTERN_THEMES.find(theme => theme.name === themeName)) || patternTheme;
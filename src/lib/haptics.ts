@@ -0,0 +1,169 @@
+/**
+ * Haptic pacing for breathing sessions, using the Vibration API so a session can be
+ * followed with the phone face-down:
+ * - A distinct pulse pattern at each inhale, hold and exhale boundary
+ * - Optionally, a gentle pulse train whose rate tells the current phase apart
+ * Vibration has no strength control, so intensity scales the pulse lengths.
+ */
+import type { BreathingPhase, PhaseType } from './breathingPhases';
+import type { SessionProgress } from './sessionEngine';
+
+/**
+ * Identifiers of the available boundary pulse patterns
+ */
+export type HapticPatternId = 'pulse' | 'wave' | 'knock';
+
+/**
+ * Pulse patterns at each phase boundary, as alternating vibrate and pause lengths in ms
+ * at full intensity; holds share one pattern
+ */
+interface HapticPattern {
+  name: string;
+  inhale: number[];
+  hold: number[];
+  exhale: number[];
+}
+
+/**
+ * Available boundary pulse patterns
+ */
+export const HAPTIC_PATTERNS: Record<HapticPatternId, HapticPattern> = {
+  pulse: {
+    name: 'Pulse',
+    inhale: [200],
+    hold: [60, 80, 60],
+    exhale: [400]
+  },
+  wave: {
+    name: 'Wave',
+    inhale: [60, 60, 120, 60, 240],
+    hold: [100],
+    exhale: [240, 60, 120, 60, 60]
+  },
+  knock: {
+    name: 'Knock',
+    inhale: [80],
+    hold: [80, 120, 80, 120, 80],
+    exhale: [80, 120, 80]
+  }
+};
+
+/**
+ * Seconds between pulses of the pulse train in each phase type
+ * Quick while breathing in, slower while breathing out, sparse while holding.
+ */
+const PULSE_TRAIN_INTERVALS: Record<PhaseType, number> = {
+  inhale: 0.5,
+  'hold-full': 2,
+  exhale: 1,
+  'hold-empty': 2
+};
+
+/**
+ * Pulse lengths and intensity bounds
+ * - trainPulse: Length of one pulse-train pulse in ms at full intensity
+ * - minPulse: Shortest pulse a device reliably plays, in ms
+ */
+const PULSE = {
+  trainPulse: 30,
+  minPulse: 10,
+  minIntensity: 0.25
+} as const;
+
+/**
+ * Haptic pacing preferences
+ * - intensity: Pulse strength (0.25-1), applied as pulse length
+ * - pulseTrain: Also pulse gently throughout each phase
+ */
+export interface HapticSettings {
+  enabled: boolean;
+  intensity: number;
+  pattern: HapticPatternId;
+  pulseTrain: boolean;
+}
+
+export const DEFAULT_HAPTIC_SETTINGS: HapticSettings = {
+  enabled: false,
+  intensity: 0.7,
+  pattern: 'pulse',
+  pulseTrain: false
+};
+
+/**
+ * Public interface of the haptic pacer
+ */
+export interface HapticPacer {
+  isSupported: boolean;
+  pulsePhase: (phase: BreathingPhase, settings: HapticSettings) => void;
+  updatePulseTrain: (progress: SessionProgress, settings: HapticSettings) => void;
+  stop: () => void;
+}
+
+/**
+ * Returns the browser's vibrate function, or null where vibration is unavailable
+ */
+const getDefaultVibrate = (): ((pattern: number[]) => boolean) | null =>
+  typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function'
+    ? (pattern) => navigator.vibrate(pattern)
+    : null;
+
+/**
+ * Scales the vibrate lengths of a pattern by the intensity, leaving the pauses alone
+ */
+const scalePattern = (pattern: number[], intensity: number) => {
+  const scale = Math.max(PULSE.minIntensity, Math.min(1, intensity));
+  return pattern.map((length, index) =>
+    index % 2 === 0 ? Math.max(PULSE.minPulse, Math.round(length * scale)) : length
+  );
+};
+
+/**
+ * Creates a haptic pacer
+ * Every method does nothing where the Vibration API is missing.
+ *
+ * @param vibrate - Plays a vibration pattern; replaceable for testing
+ * @returns {HapticPacer} A new pacer
+ */
+export const createHapticPacer = (
+  vibrate: ((pattern: number[]) => boolean) | null = getDefaultVibrate()
+): HapticPacer => {
+  // Pulse-train pulses already played in the current phase
+  let lastPulse = 0;
+
+  const play = (pattern: number[], settings: HapticSettings) => {
+    vibrate?.(scalePattern(pattern, settings.intensity));
+  };
+
+  const pulsePhase = (phase: BreathingPhase, settings: HapticSettings) => {
+    lastPulse = 0;
+    const pattern = HAPTIC_PATTERNS[settings.pattern];
+    play(
+      phase.type === 'inhale' ? pattern.inhale : phase.type === 'exhale' ? pattern.exhale : pattern.hold,
+      settings
+    );
+  };
+
+  /**
+   * Plays a pulse-train pulse each time an interval of the phase passes
+   * The boundary pattern covers the start of the phase, so counting starts at the first interval.
+   */
+  const updatePulseTrain = (progress: SessionProgress, settings: HapticSettings) => {
+    const elapsed = progress.phase.duration - progress.phaseRemaining;
+    const pulse = Math.floor(elapsed / PULSE_TRAIN_INTERVALS[progress.phase.type]);
+    if (pulse <= lastPulse || progress.phaseRemaining <= 0) return;
+    lastPulse = pulse;
+    play([PULSE.trainPulse], settings);
+  };
+
+  const stop = () => {
+    lastPulse = 0;
+    vibrate?.([0]);
+  };
+
+  return { isSupported: vibrate !== null, pulsePhase, updatePulseTrain, stop };
+};
+
+/**
+ * Shared haptic pacer used by the app
+ */
+export const hapticPacer = createHapticPacer();
@@ -0,0 +1,103 @@
+/**
+ * Routines chain several breathing patterns into one session,
+ * e.g. 2 minutes of Balance, then 5 minutes of Focus, then 3 minutes of Calm.
+ * Saved routines are stored as a JSON array in localStorage under `breathing-routines`.
+ * A routine is only offered if every one of its segments can still be run.
+ */
+import {
+  isPhaseList,
+  isProgression,
+  isRecord,
+  type BreathingPhase,
+  type PatternProgression,
+} from './breathingPhases';
+
+/**
+ * One segment of a routine
+ * Holds a copy of the pattern it uses, so the routine keeps working if the pattern changes:
+ * - Pattern ID, name, phases and optional progression
+ * - Theme applied while the segment runs
+ * - Segment length in seconds
+ */
+export interface RoutineSegment {
+  patternId: string;
+  name: string;
+  phases: BreathingPhase[];
+  progression?: PatternProgression;
+  theme: {
+    primary: string;
+    secondary: string;
+    background: string;
+  };
+  duration: number;
+}
+
+/**
+ * A named, saved routine
+ */
+export interface Routine {
+  id: string;
+  name: string;
+  segments: RoutineSegment[];
+}
+
+const STORAGE_KEY = 'breathing-routines';
+
+/**
+ * Gets the total planned length of a routine
+ * @param routine - The routine
+ * @returns {number} The length in seconds
+ */
+export const getRoutineDuration = (routine: Routine): number =>
+  routine.segments.reduce((total, segment) => total + segment.duration, 0);
+
+/**
+ * Checks that a stored value is a valid routine segment
+ */
+const isRoutineSegment = (value: unknown): value is RoutineSegment =>
+  isRecord(value) &&
+  typeof value.patternId === 'string' &&
+  typeof value.name === 'string' &&
+  isPhaseList(value.phases) &&
+  (value.progression === undefined || isProgression(value.progression, value.phases)) &&
+  isRecord(value.theme) &&
+  typeof value.theme.primary === 'string' &&
+  typeof value.theme.secondary === 'string' &&
+  typeof value.theme.background === 'string' &&
+  typeof value.duration === 'number' &&
+  Number.isFinite(value.duration) &&
+  value.duration > 0;
+
+/**
+ * Checks that a stored value is a valid routine with at least one segment
+ */
+const isRoutine = (value: unknown): value is Routine =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  Array.isArray(value.segments) &&
+  value.segments.length > 0 &&
+  value.segments.every(isRoutineSegment);
+
+/**
+ * Loads the saved routines
+ * @returns {Routine[]} The valid saved routines, oldest first, or none if they can't be read
+ */
+export const loadRoutines = (): Routine[] => {
+  const storedRoutines = localStorage.getItem(STORAGE_KEY);
+  if (!storedRoutines) return [];
+  try {
+    const parsed: unknown = JSON.parse(storedRoutines);
+    return Array.isArray(parsed) ? parsed.filter(isRoutine) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Replaces the saved routines
+ * @param routines - The routines to save
+ */
+export const saveRoutines = (routines: Routine[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(routines));
+};
@@ -0,0 +1,326 @@
+/**
+ * IndexedDB storage for completed breathing sessions.
+ * Sessions are stored one record each in the `sessions` store of the `breathing`
+ * database, keyed by ID, with indexes on the date and on the pattern and date, so
+ * pages and date ranges are read without loading the whole history.
+ * Sessions kept in localStorage by earlier versions are moved in the first time the
+ * database opens; any records that fail validation are set aside under
+ * `breathing-sessions-unreadable` instead of being dropped. Sessions already in the
+ * database are migrated when the database version goes up with the session schema,
+ * and any that fail validation then are set aside the same way, so the database only
+ * holds valid sessions and its counts match the sessions read.
+ * When the database can't be opened (private browsing, storage errors, or an upgrade
+ * blocked by another tab), sessions are kept in localStorage instead, and moved in
+ * once the database opens again.
+ */
+import {
+  migrateStoredSessions,
+  parseSession,
+  readStoredSessions,
+  SESSIONS_STORAGE_KEY,
+  setAsideUnreadable,
+  type Session,
+  type SessionQuery,
+} from './sessionRecords';
+import type { SessionPageRequest, SessionRepository } from './sessionRepository';
+
+/**
+ * Database layout
+ * - version: Version 1 held sessions of schema version 2, version 2 holds schema version 3
+ * - byDate: Index on the session date
+ * - byPattern: Index on the pattern ID and then the date; sessions without a
+ *   pattern ID are left out of it
+ */
+const DATABASE = {
+  name: 'breathing',
+  version: 2,
+  store: 'sessions',
+  byDate: 'date',
+  byPattern: 'patternId-date'
+} as const;
+
+/**
+ * Bounds of an open-ended date range; ISO dates sort between the two
+ */
+const EARLIEST_DATE = '';
+const LATEST_DATE = '\uffff';
+
+/**
+ * Resolves with the result of an IndexedDB request
+ */
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resolves once a transaction has been committed
+ */
+const whenComplete = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * Dates are compared as stored, so query bounds are brought to the same ISO form
+ */
+const toStoredDate = (date: string) => new Date(date).toISOString();
+
+/**
+ * Gets the index and key range covering the sessions that match a query
+ */
+const getQueryRange = (store: IDBObjectStore, { from, to, patternId }: SessionQuery) => {
+  const lower = from === undefined ? EARLIEST_DATE : toStoredDate(from);
+  const upper = to === undefined ? LATEST_DATE : toStoredDate(to);
+  return patternId === undefined
+    ? { index: store.index(DATABASE.byDate), range: IDBKeyRange.bound(lower, upper, false, true) }
+    : {
+        index: store.index(DATABASE.byPattern),
+        range: IDBKeyRange.bound([patternId, lower], [patternId, upper], false, true),
+      };
+};
+
+/**
+ * Session schema version held by each older database version
+ */
+const DATABASE_SCHEMAS: Record<number, number> = {
+  1: 2,
+};
+
+/**
+ * Brings the stored sessions up to the current schema, within the upgrade transaction
+ * Records that fail validation after migrating are removed and set aside.
+ */
+const migrateRecords = (store: IDBObjectStore, schemaVersion: number, storage: Storage) => {
+  const unreadable: unknown[] = [];
+  const request = store.openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) {
+      if (unreadable.length > 0) setAsideUnreadable(storage, unreadable);
+      return;
+    }
+    const [record] = migrateStoredSessions({ version: schemaVersion, sessions: [cursor.value] }) ?? [];
+    const session = parseSession(record);
+    if (session) {
+      cursor.update(session);
+    } else {
+      unreadable.push(cursor.value);
+      cursor.delete();
+    }
+    cursor.continue();
+  };
+};
+
+/**
+ * Opens the database, creating the store and its indexes on first use and
+ * migrating the sessions when an older version is opened
+ * Fails when another tab holds an older version open, rather than waiting for it
+ * to close; a connection that opens after that is closed straight away. The open
+ * connection is closed as soon as another tab needs to upgrade the database.
+ *
+ * @param factory - The IndexedDB factory
+ * @param storage - Where sessions that fail validation during a migration are set aside
+ * @param onClose - Called when the connection is closed for another tab's upgrade
+ */
+const openDatabase = (factory: IDBFactory, storage: Storage, onClose: () => void) =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    let isBlocked = false;
+    const request = factory.open(DATABASE.name, DATABASE.version);
+    request.onblocked = () => {
+      isBlocked = true;
+      reject(new Error('Opening the session database is blocked by another tab'));
+    };
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      if (isBlocked) {
+        db.close();
+        return;
+      }
+      db.onversionchange = () => {
+        db.close();
+        onClose();
+      };
+      resolve(db);
+    };
+    request.onupgradeneeded = ({ oldVersion }) => {
+      if (oldVersion === 0) {
+        const store = request.result.createObjectStore(DATABASE.store, { keyPath: 'id' });
+        store.createIndex(DATABASE.byDate, 'date');
+        store.createIndex(DATABASE.byPattern, ['patternId', 'date']);
+        return;
+      }
+      const { transaction } = request;
+      if (transaction) migrateRecords(transaction.objectStore(DATABASE.store), DATABASE_SCHEMAS[oldVersion], storage);
+    };
+  });
+
+/**
+ * Moves the sessions kept in localStorage into the database, once
+ * The localStorage copy is only removed after the records have been committed.
+ */
+const moveStoredSessions = async (db: IDBDatabase, storage: Storage) => {
+  const storedSessions = storage.getItem(SESSIONS_STORAGE_KEY);
+  if (!storedSessions) return;
+
+  const records = readStoredSessions(storedSessions);
+  if (!records) {
+    setAsideUnreadable(storage, [storedSessions]);
+    storage.removeItem(SESSIONS_STORAGE_KEY);
+    return;
+  }
+  const unreadable = records.filter(record => !parseSession(record));
+  const transaction = db.transaction(DATABASE.store, 'readwrite');
+  const store = transaction.objectStore(DATABASE.store);
+  records.forEach(record => {
+    const session = parseSession(record);
+    if (session) store.put(session);
+  });
+  await whenComplete(transaction);
+
+  if (unreadable.length > 0) setAsideUnreadable(storage, unreadable);
+  storage.removeItem(SESSIONS_STORAGE_KEY);
+};
+
+/**
+ * Creates a session repository backed by IndexedDB
+ * The database is opened, and older sessions moved in, on first use. A failed open
+ * is retried on the next call, with `fallback` used in the meantime.
+ *
+ * @param fallback - Where sessions are kept while the database can't be opened; this
+ *   should use `storage` under the legacy key, so its sessions are moved in later
+ * @param factory - The IndexedDB factory; replaceable for testing
+ * @param storage - Where earlier versions kept sessions; replaceable for testing
+ * @returns {SessionRepository} A new repository
+ */
+export const createIndexedDbSessionRepository = (
+  fallback: SessionRepository,
+  factory: IDBFactory = indexedDB,
+  storage: Storage = localStorage
+): SessionRepository => {
+  let database: Promise<IDBDatabase | null> | null = null;
+
+  /**
+   * Gets the open database, or null if it can't be opened right now
+   */
+  const getDatabase = () => {
+    database ??= openDatabase(factory, storage, () => {
+      database = null;
+    })
+      .then(async db => {
+        try {
+          await moveStoredSessions(db, storage);
+        } catch {
+          // They stay in localStorage and are tried again the next time the database opens
+        }
+        return db;
+      })
+      .catch(() => {
+        database = null;
+        return null;
+      });
+    return database;
+  };
+
+  /**
+   * Runs `work` against the sessions store and resolves once its transaction is
+   * committed, or runs `fallbackWork` against the fallback repository
+   */
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => Promise<T>,
+    fallbackWork: (repository: SessionRepository) => Promise<T>
+  ) => {
+    const db = await getDatabase();
+    if (!db) return fallbackWork(fallback);
+    const transaction = db.transaction(DATABASE.store, mode);
+    const [result] = await Promise.all([work(transaction.objectStore(DATABASE.store)), whenComplete(transaction)]);
+    return result;
+  };
+
+  const readSessions = (records: unknown[]): Session[] =>
+    records.flatMap(record => parseSession(record) ?? []);
+
+  const add = (session: Session) =>
+    withStore('readwrite', async store => {
+      await toPromise(store.add(session));
+    }, repository => repository.add(session));
+
+  const list = () =>
+    withStore(
+      'readonly',
+      async store => readSessions(await toPromise(store.index(DATABASE.byDate).getAll())),
+      repository => repository.list()
+    );
+
+  const listIds = () =>
+    withStore(
+      'readonly',
+      async store => (await toPromise(store.getAllKeys())).map(String),
+      repository => repository.listIds()
+    );
+
+  const query = (filters: SessionQuery) =>
+    withStore('readonly', async store => {
+      const { index, range } = getQueryRange(store, filters);
+      return readSessions(await toPromise(index.getAll(range)));
+    }, repository => repository.query(filters));
+
+  /**
+   * Walks the matching sessions newest first, skipping to `offset` and stopping after `limit`
+   */
+  const getPage = ({ offset, limit, ...filters }: SessionPageRequest) =>
+    withStore('readonly', async store => {
+      const { index, range } = getQueryRange(store, filters);
+      const total = await toPromise(index.count(range));
+      const records: unknown[] = [];
+      if (limit <= 0 || offset >= total) return { sessions: [], total };
+
+      await new Promise<void>((resolve, reject) => {
+        const request = index.openCursor(range, 'prev');
+        let hasSkipped = offset === 0;
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return resolve();
+          if (!hasSkipped) {
+            hasSkipped = true;
+            cursor.advance(offset);
+            return;
+          }
+          records.push(cursor.value);
+          if (records.length < limit) {
+            cursor.continue();
+          } else {
+            resolve();
+          }
+        };
+      });
+      return { sessions: readSessions(records), total };
+    }, repository => repository.getPage({ offset, limit, ...filters }));
+
+  const update = (id: string, changes: Partial<Omit<Session, 'id'>>) =>
+    withStore('readwrite', async store => {
+      const session = parseSession(await toPromise(store.get(id)));
+      if (!session) return null;
+      const updated: Session = { ...session, ...changes, id };
+      await toPromise(store.put(updated));
+      return updated;
+    }, repository => repository.update(id, changes));
+
+  const remove = (id: string) =>
+    withStore('readwrite', async store => {
+      await toPromise(store.delete(id));
+    }, repository => repository.remove(id));
+
+  const clear = () =>
+    withStore('readwrite', async store => {
+      await toPromise(store.clear());
+    }, repository => repository.clear());
+
+  return { add, list, listIds, query, getPage, update, remove, clear };
+};
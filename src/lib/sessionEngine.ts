@@ -0,0 +1,567 @@
+/**
+ * Breathing session engine that runs independently of React and rendering.
+ * Owns the session clock and is the single source of truth for:
+ * - Phase sequencing through the pattern's phase list
+ * - Progressive timings, recalculated at the start of every cycle
+ * - Routine segments, switched at the first cycle boundary after each segment's length
+ * - Cycle counting
+ * - Elapsed session time, excluding time spent paused
+ * - Ending the session once its goal is reached
+ * - A log of every phase that began, for the session record
+ * - Ticking on at a lower rate while the page is hidden
+ *
+ * The clock and the tick scheduler are injectable, so a session can be stepped
+ * deterministically by advancing a fake clock and calling `tick()`.
+ */
+import {
+  getCycleDuration,
+  getProgressedPhases,
+  type BreathingPhase,
+  type PatternProgression,
+  type PhaseType,
+} from './breathingPhases';
+
+/**
+ * Time source for the engine, returning milliseconds
+ */
+export interface Clock {
+  now: () => number;
+}
+
+/**
+ * Schedules `callback` repeatedly until the returned cancel function is called
+ */
+export type Ticker = (callback: () => void) => () => void;
+
+/**
+ * What a session works towards
+ * - open: Runs until stopped
+ * - duration: Ends at the end of the cycle in which `seconds` is reached
+ * - cycles: Ends after the last exhale of cycle number `cycles`
+ */
+export type SessionGoal =
+  | { type: 'open' }
+  | { type: 'duration'; seconds: number }
+  | { type: 'cycles'; cycles: number };
+
+/**
+ * A stretch of a session that uses one pattern
+ * - phases: The pattern's (starting) phases
+ * - progression: How the timings change over the segment, if at all
+ * - duration: Seconds before moving on; a final segment with a duration ends the session
+ */
+export interface SessionSegment {
+  phases: BreathingPhase[];
+  progression?: PatternProgression | null;
+  duration?: number;
+}
+
+/**
+ * Everything needed to run a session
+ * - segments: One segment for a single pattern, several for a routine
+ * - goal: When the session should end
+ */
+export interface SessionPlan {
+  segments: SessionSegment[];
+  goal?: SessionGoal;
+}
+
+/**
+ * Snapshot of a running session
+ * - segmentIndex: Index of the active segment in the plan
+ * - phases: The phase list of the current cycle (differs per cycle for progressive patterns)
+ * - phaseIndex / phase: The active phase
+ * - phaseProgress: Progress through the active phase (0-1)
+ * - phaseRemaining: Seconds left in the active phase
+ * - cycleIndex: Zero-based index of the current cycle
+ * - cycleElapsed: Seconds since the current cycle started
+ * - completedCycles: Cycles whose last exhale has finished
+ * - elapsed: Seconds since the session started, excluding pauses
+ */
+export interface SessionProgress {
+  segmentIndex: number;
+  phases: BreathingPhase[];
+  phaseIndex: number;
+  phase: BreathingPhase;
+  phaseProgress: number;
+  phaseRemaining: number;
+  cycleIndex: number;
+  cycleElapsed: number;
+  completedCycles: number;
+  elapsed: number;
+}
+
+/**
+ * Time and cycles spent in one segment of a session
+ */
+export interface SegmentBreakdown {
+  segmentIndex: number;
+  duration: number;
+  cycles: number;
+}
+
+/**
+ * A phase that began during a session: seconds since the start (excluding pauses,
+ * to a tenth of a second) and the phase type, kept as a pair so long logs stay small
+ */
+export type PhaseTransition = [at: number, phase: PhaseType];
+
+/**
+ * Events emitted while a session runs
+ * - segment: The session moved on to the next segment
+ * - phase: The active phase or cycle changed (also emitted when a session starts)
+ * - progress: Emitted on every tick
+ * - complete: The goal was reached; the engine stops ticking and its progress stays frozen
+ *   at the point the goal was reached, even if the tick that noticed it came later
+ */
+export type SessionEvent = {
+  type: 'segment' | 'phase' | 'progress' | 'complete';
+  progress: SessionProgress;
+};
+
+export type SessionListener = (event: SessionEvent) => void;
+
+/**
+ * Options for creating an engine
+ */
+interface SessionEngineOptions {
+  clock?: Clock;
+  ticker?: Ticker;
+}
+
+/**
+ * Public interface of a session engine
+ */
+export interface SessionEngine {
+  start: (plan: SessionPlan) => void;
+  stop: () => void;
+  pause: () => void;
+  resume: () => void;
+  tick: () => void;
+  getProgress: () => SessionProgress | null;
+  getPauses: () => number[];
+  getSegmentBreakdown: () => SegmentBreakdown[];
+  getPhaseLog: () => PhaseTransition[];
+  getStartTime: () => number | null;
+  isComplete: () => boolean;
+  subscribe: (listener: SessionListener) => () => void;
+}
+
+/**
+ * Default clock based on wall-clock time. The monotonic timer can stand still while
+ * the device sleeps, which would drop that time from a session that keeps running.
+ */
+const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * Milliseconds between ticks while the page is hidden (browsers may throttle this further)
+ */
+const BACKGROUND_TICK_INTERVAL = 1000;
+
+/**
+ * Default ticker that ticks once per animation frame while the page is visible.
+ * Animation frames stop in a hidden tab, so it falls back to a timer there; phase
+ * changes and goals are still reached, and it catches up as soon as the page returns.
+ */
+const pageTicker: Ticker = callback => {
+  let frame = 0;
+  let interval: number | undefined;
+  let isCancelled = false;
+
+  const tick = () => {
+    if (!isCancelled) callback();
+  };
+
+  const schedule = () => {
+    cancelAnimationFrame(frame);
+    clearInterval(interval);
+    if (isCancelled) return;
+    if (document.hidden) {
+      interval = window.setInterval(tick, BACKGROUND_TICK_INTERVAL);
+    } else {
+      frame = requestAnimationFrame(function loop() {
+        tick();
+        if (!isCancelled) frame = requestAnimationFrame(loop);
+      });
+    }
+  };
+
+  const handleVisibilityChange = () => {
+    tick();
+    schedule();
+  };
+
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  schedule();
+  return () => {
+    isCancelled = true;
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    cancelAnimationFrame(frame);
+    clearInterval(interval);
+  };
+};
+
+/**
+ * Gets the offset within a cycle at which its last exhale ends.
+ * Sessions finish there, so a trailing hold-empty is not left hanging.
+ *
+ * @param phases - The breathing pattern
+ * @returns {number} Offset in seconds from the start of the cycle
+ */
+const getLastExhaleEnd = (phases: BreathingPhase[]): number => {
+  let offset = 0;
+  let lastExhaleEnd = getCycleDuration(phases);
+  phases.forEach(phase => {
+    offset += phase.duration;
+    if (phase.type === 'exhale') lastExhaleEnd = offset;
+  });
+  return lastExhaleEnd;
+};
+
+/**
+ * Checks whether `seconds` have passed since `since` and the cycle in which
+ * that happened has reached its last exhale. If that cycle has already rolled
+ * over, the finish point has passed as well.
+ *
+ * @param progress - The current progress
+ * @param seconds - The length to reach
+ * @param since - Elapsed time at which the length is measured from
+ * @returns {boolean} True once the length has been reached
+ */
+const hasReachedLength = (progress: SessionProgress, seconds: number, since: number): boolean => {
+  const cycleStart = progress.elapsed - progress.cycleElapsed;
+  return (
+    progress.elapsed - since >= seconds &&
+    (cycleStart - since >= seconds || progress.cycleElapsed >= getLastExhaleEnd(progress.phases))
+  );
+};
+
+/**
+ * Creates a breathing session engine
+ * @param options - Optional clock and ticker overrides
+ * @returns {SessionEngine} A new, idle engine
+ */
+export const createSessionEngine = ({
+  clock = systemClock,
+  ticker = pageTicker,
+}: SessionEngineOptions = {}): SessionEngine => {
+  const listeners = new Set<SessionListener>();
+  let segments: SessionSegment[] = [];
+  let goal: SessionGoal = { type: 'open' };
+  let phases: BreathingPhase[] = [];
+  let isRunning = false;
+  let startedAt = 0;
+  let segmentIndex = 0;
+  let segmentStarts: { elapsed: number; cycleIndex: number }[] = [];
+  let cycleIndex = 0;
+  let cycleStart = 0;
+  let cycleLog: { start: number; phases: BreathingPhase[] }[] = [];
+  let lastSegmentIndex = -1;
+  let lastPhaseIndex = -1;
+  let lastCycleIndex = -1;
+  let pausedAt: number | null = null;
+  let completedAt: number | null = null;
+  let finalCycleIndex: number | null = null;
+  let pausedTotal = 0;
+  let pauses: number[] = [];
+  let cancelTicker: (() => void) | null = null;
+
+  /**
+   * Gets the phases for a cycle starting at the given elapsed time
+   */
+  const getCyclePhases = (cycleStartTime: number): BreathingPhase[] => {
+    const segment = segments[segmentIndex];
+    const segmentStart = segmentStarts[segmentIndex].elapsed;
+    return segment.progression
+      ? getProgressedPhases(segment.phases, segment.progression, cycleStartTime - segmentStart)
+      : segment.phases;
+  };
+
+  /**
+   * Moves on to the next segment if the current one has run its length
+   */
+  const advanceSegment = () => {
+    const { duration } = segments[segmentIndex];
+    const isLast = segmentIndex === segments.length - 1;
+    if (isLast || duration === undefined) return;
+    if (cycleStart - segmentStarts[segmentIndex].elapsed < duration) return;
+
+    segmentIndex++;
+    segmentStarts.push({ elapsed: cycleStart, cycleIndex });
+  };
+
+  const emit = (event: SessionEvent) => {
+    listeners.forEach(listener => listener(event));
+  };
+
+  const getProgress = (): SessionProgress | null => {
+    if (!isRunning) return null;
+
+    // Once complete or while paused, time stands still
+    const now = completedAt ?? pausedAt ?? clock.now();
+    const elapsed = (now - startedAt - pausedTotal) / 1000;
+
+    // Advance whole cycles that have finished since the last call; once complete,
+    // the cycle the session finished in is the last
+    while (elapsed >= cycleStart + getCycleDuration(phases) && cycleIndex !== finalCycleIndex) {
+      cycleStart += getCycleDuration(phases);
+      cycleIndex++;
+      advanceSegment();
+      phases = getCyclePhases(cycleStart);
+      cycleLog.push({ start: cycleStart, phases });
+    }
+
+    // Find the active phase within the current cycle
+    const time = elapsed - cycleStart;
+    let phaseIndex = 0;
+    let phaseStart = 0;
+    while (phaseIndex < phases.length - 1 && time >= phaseStart + phases[phaseIndex].duration) {
+      phaseStart += phases[phaseIndex].duration;
+      phaseIndex++;
+    }
+    const phase = phases[phaseIndex];
+    const phaseElapsed = time - phaseStart;
+
+    return {
+      segmentIndex,
+      phases,
+      phaseIndex,
+      phase,
+      phaseProgress: Math.min(phaseElapsed / phase.duration, 1),
+      phaseRemaining: Math.max(phase.duration - phaseElapsed, 0),
+      cycleIndex,
+      cycleElapsed: time,
+      completedCycles: cycleIndex + (time >= getLastExhaleEnd(phases) ? 1 : 0),
+      elapsed,
+    };
+  };
+
+  /**
+   * Checks whether the session goal, or the end of a final timed segment,
+   * has been reached at the given progress
+   */
+  const isGoalReached = (progress: SessionProgress): boolean => {
+    const segment = segments[progress.segmentIndex];
+    const isLastSegment = progress.segmentIndex === segments.length - 1;
+    if (
+      isLastSegment &&
+      segment.duration !== undefined &&
+      hasReachedLength(progress, segment.duration, segmentStarts[progress.segmentIndex].elapsed)
+    ) {
+      return true;
+    }
+
+    switch (goal.type) {
+      case 'open':
+        return false;
+      case 'duration':
+        return hasReachedLength(progress, goal.seconds, 0);
+      case 'cycles':
+        return progress.completedCycles >= goal.cycles;
+    }
+  };
+
+  /**
+   * Finds where a length measured from `since` ends: at the last exhale of the cycle
+   * the length runs out in, or at the length itself if that cycle's last exhale has ended
+   */
+  const getLengthFinish = (seconds: number, since: number) => {
+    const target = since + seconds;
+    let index = cycleLog.findIndex(cycle => target <= cycle.start + getCycleDuration(cycle.phases));
+    if (index === -1) index = cycleLog.length - 1;
+    const { start, phases: cyclePhases } = cycleLog[index];
+    return { cycleIndex: index, elapsed: Math.max(target, start + getLastExhaleEnd(cyclePhases)) };
+  };
+
+  /**
+   * Works out when the goal, or the end of a final timed segment, was actually
+   * reached, which is earlier than now when the tick that noticed it came late
+   * @returns The cycle the session finished in and the elapsed time it finished at
+   */
+  const getFinishPoint = (): { cycleIndex: number; elapsed: number } => {
+    const finishes: { cycleIndex: number; elapsed: number }[] = [];
+    const lastSegment = segments.length - 1;
+    const { duration } = segments[lastSegment];
+    if (segmentIndex === lastSegment && duration !== undefined) {
+      finishes.push(getLengthFinish(duration, segmentStarts[lastSegment].elapsed));
+    }
+    if (goal.type === 'duration') {
+      finishes.push(getLengthFinish(goal.seconds, 0));
+    } else if (goal.type === 'cycles') {
+      const index = Math.min(Math.max(goal.cycles - 1, 0), cycleLog.length - 1);
+      const { start, phases: cyclePhases } = cycleLog[index];
+      finishes.push({ cycleIndex: index, elapsed: start + getLastExhaleEnd(cyclePhases) });
+    }
+    return finishes.reduce((earliest, finish) => (finish.elapsed < earliest.elapsed ? finish : earliest));
+  };
+
+  /**
+   * Ends the session at its finish point, winding the cycle and segment
+   * bookkeeping back to the cycle it finished in
+   */
+  const complete = () => {
+    const finish = getFinishPoint();
+    cycleLog = cycleLog.slice(0, finish.cycleIndex + 1);
+    ({ start: cycleStart, phases } = cycleLog[finish.cycleIndex]);
+    cycleIndex = finish.cycleIndex;
+    segmentStarts = segmentStarts.filter(start => start.cycleIndex <= finish.cycleIndex);
+    segmentIndex = segmentStarts.length - 1;
+    finalCycleIndex = finish.cycleIndex;
+    completedAt = startedAt + pausedTotal + finish.elapsed * 1000;
+  };
+
+  const tick = () => {
+    if (completedAt !== null) return;
+    const progress = getProgress();
+    if (!progress) return;
+
+    if (isGoalReached(progress)) {
+      complete();
+      cancelTicker?.();
+      cancelTicker = null;
+      emit({ type: 'complete', progress: getProgress() ?? progress });
+      return;
+    }
+
+    if (progress.segmentIndex !== lastSegmentIndex) {
+      lastSegmentIndex = progress.segmentIndex;
+      emit({ type: 'segment', progress });
+    }
+    if (progress.phaseIndex !== lastPhaseIndex || progress.cycleIndex !== lastCycleIndex) {
+      lastPhaseIndex = progress.phaseIndex;
+      lastCycleIndex = progress.cycleIndex;
+      emit({ type: 'phase', progress });
+    }
+    emit({ type: 'progress', progress });
+  };
+
+  const stop = () => {
+    cancelTicker?.();
+    cancelTicker = null;
+    isRunning = false;
+  };
+
+  const pause = () => {
+    if (!isRunning || pausedAt !== null || completedAt !== null) return;
+    pausedAt = clock.now();
+    cancelTicker?.();
+    cancelTicker = null;
+  };
+
+  const resume = () => {
+    if (!isRunning || pausedAt === null) return;
+    const pauseLength = clock.now() - pausedAt;
+    pausedTotal += pauseLength;
+    pauses.push(pauseLength / 1000);
+    pausedAt = null;
+    tick();
+    cancelTicker = ticker(tick);
+  };
+
+  /**
+   * Gets the length in seconds of each pause, including one still in progress
+   */
+  const getPauses = () =>
+    pausedAt === null ? [...pauses] : [...pauses, (clock.now() - pausedAt) / 1000];
+
+  /**
+   * Gets the time and completed cycles spent in each segment reached so far
+   */
+  const getSegmentBreakdown = (): SegmentBreakdown[] => {
+    const progress = getProgress();
+    if (!progress) return [];
+
+    return segmentStarts.map((start, index) => {
+      const next = segmentStarts[index + 1];
+      return {
+        segmentIndex: index,
+        duration: (next ? next.elapsed : progress.elapsed) - start.elapsed,
+        cycles: (next ? next.cycleIndex : progress.completedCycles) - start.cycleIndex,
+      };
+    });
+  };
+
+  /**
+   * Gets every phase that has begun so far, in order
+   * Built from the cycles rather than from ticks, so phases that passed between two
+   * ticks in a throttled background tab are not missed.
+   */
+  const getPhaseLog = (): PhaseTransition[] => {
+    const progress = getProgress();
+    if (!progress) return [];
+    // A phase due to begin at the finish point was never breathed
+    const hasBegun = (at: number) => (completedAt === null ? at <= progress.elapsed : at < progress.elapsed);
+
+    return cycleLog.flatMap(cycle => {
+      let phaseStart = cycle.start;
+      return cycle.phases.flatMap(phase => {
+        const at = phaseStart;
+        phaseStart += phase.duration;
+        return hasBegun(at) ? [[Math.round(at * 10) / 10, phase.type] as PhaseTransition] : [];
+      });
+    });
+  };
+
+  /**
+   * Gets the clock time the running session started at, in milliseconds
+   */
+  const getStartTime = () => (isRunning ? startedAt : null);
+
+  /**
+   * Checks whether the running session ended by reaching its goal
+   */
+  const isComplete = () => isRunning && completedAt !== null;
+
+  const start = (plan: SessionPlan) => {
+    stop();
+    segments = plan.segments;
+    goal = plan.goal ?? { type: 'open' };
+    isRunning = true;
+    startedAt = clock.now();
+    segmentIndex = 0;
+    segmentStarts = [{ elapsed: 0, cycleIndex: 0 }];
+    cycleIndex = 0;
+    cycleStart = 0;
+    phases = getCyclePhases(0);
+    cycleLog = [{ start: 0, phases }];
+    lastSegmentIndex = -1;
+    lastPhaseIndex = -1;
+    lastCycleIndex = -1;
+    pausedAt = null;
+    completedAt = null;
+    finalCycleIndex = null;
+    pausedTotal = 0;
+    pauses = [];
+    tick();
+    cancelTicker = ticker(tick);
+  };
+
+  const subscribe = (listener: SessionListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    start,
+    stop,
+    pause,
+    resume,
+    tick,
+    getProgress,
+    getPauses,
+    getSegmentBreakdown,
+    getPhaseLog,
+    getStartTime,
+    isComplete,
+    subscribe,
+  };
+};
+
+/**
+ * Shared engine instance driving the app's breathing session
+ */
+export const sessionEngine = createSessionEngine();
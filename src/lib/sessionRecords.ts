@@ -0,0 +1,367 @@
+/**
+ * Stored breathing session records: their schema, its versions and validation.
+ * - Older schemas are migrated step by step, e.g. deriving phases from `pattern: "4-4-6"`
+ * - Every record is validated on read, so a corrupt record can be skipped rather
+ *   than breaking the history; a stored history that can't be read at all is set
+ *   aside under `breathing-sessions-unreadable` and a new one started
+ */
+import {
+  createPhases,
+  getCycleDuration,
+  isPhaseList,
+  isProgression,
+  isRecord,
+  PHASE_LABELS,
+  type BreathingPhase,
+  type PatternProgression,
+} from './breathingPhases';
+import { findPatternByPhases } from './breathingPatterns';
+import type { PhaseTransition, SessionGoal } from './sessionEngine';
+import { MOODS, STRESS_SCALE, type MoodCheckIn, type SessionCheckIn } from './checkIns';
+
+/**
+ * Time and cycles spent in one segment of a routine session
+ */
+export interface SessionSegmentRecord {
+  patternId: string;
+  name: string;
+  pattern: string;
+  duration: number;
+  cycles: number;
+}
+
+/**
+ * How a session ended
+ * - completed: It reached its goal, or, when open-ended, was stopped after at least one full cycle
+ * - abandoned: It was stopped before its goal, or before its first full cycle
+ */
+export type SessionStatus = 'completed' | 'abandoned';
+
+export const SESSION_STATUSES: SessionStatus[] = ['completed', 'abandoned'];
+
+/**
+ * Colors shown when a session started
+ */
+export interface SessionTheme {
+  primary: string;
+  secondary: string;
+  background: string;
+}
+
+/**
+ * Interface for a breathing session
+ * Defines the structure of a stored session:
+ * - Unique identifier
+ * - ID of the predefined or saved custom pattern, absent for unsaved custom patterns and routines
+ * - Breathing pattern timings
+ * - Session duration in seconds
+ * - When it started and when it ended (`date`)
+ * - Ordered list of phases at the start and at the end of the session
+ * - Progression for progressive patterns
+ * - Length in seconds of each pause (paused time is not part of the duration)
+ * - Number of completed breathing cycles
+ * - For routines, the routine name and a breakdown of each segment
+ * - Sessions saved since schema version 3 also record how the session ended, its
+ *   goal (for single patterns), its theme and a log of every phase that began
+ * - Mood and stress check-ins, notes and tags, when the user gave them
+ */
+export interface Session {
+  id: string;
+  patternId?: string;
+  pattern: string;
+  duration: number;
+  startedAt: string;
+  date: string;
+  phases: BreathingPhase[];
+  endPhases: BreathingPhase[];
+  progression?: PatternProgression;
+  pauses: number[];
+  cycles: number;
+  routine?: {
+    name: string;
+    segments: SessionSegmentRecord[];
+  };
+  status?: SessionStatus;
+  goal?: SessionGoal;
+  theme?: SessionTheme;
+  phaseLog?: PhaseTransition[];
+  checkIn?: SessionCheckIn;
+  notes?: string;
+  tags?: string[];
+}
+
+/**
+ * Filters for querying sessions; every filter given must match
+ * - from / to: Sessions dated at or after `from` and before `to` (ISO timestamps)
+ * - patternId: Sessions of one pattern, not including routines
+ */
+export interface SessionQuery {
+  from?: string;
+  to?: string;
+  patternId?: string;
+}
+
+/**
+ * Key under which sessions are kept in localStorage
+ */
+export const SESSIONS_STORAGE_KEY = 'breathing-sessions';
+
+/**
+ * Key under which records and stored values that could not be read are kept
+ */
+export const UNREADABLE_STORAGE_KEY = 'breathing-sessions-unreadable';
+
+/**
+ * Version of the stored schema
+ * - 1: A bare array; the oldest records only carry inhale/hold/exhale timings, and
+ *   records saved before pattern IDs only carry phases
+ * - 2: The records wrapped with their version, each with phases, pauses and cycles
+ * - 3: Each record with its start time; new records also with status, goal, theme and phase log
+ */
+export const SESSIONS_VERSION = 3;
+
+/**
+ * Sessions as stored, with the version of their schema
+ * Records are kept as stored, since some may fail validation.
+ */
+export interface StoredSessions {
+  version: number;
+  sessions: unknown[];
+}
+
+type StoredRecord = Record<string, unknown>;
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Gets the phases of a record saved before phase lists, from its separate
+ * timings or its "inhale-hold-exhale(-hold)" pattern string
+ */
+const getLegacyPhases = ({ inhaleTime, holdTime, exhaleTime, pattern }: StoredRecord): BreathingPhase[] | null => {
+  const timings = isNumber(inhaleTime) && isNumber(exhaleTime)
+    ? [inhaleTime, isNumber(holdTime) ? holdTime : 0, exhaleTime]
+    : typeof pattern === 'string'
+      ? pattern.split('-').map(Number)
+      : [];
+  if (timings.length < 3 || timings.length > 4 || !timings.every(isNumber)) return null;
+  const [inhale, hold, exhale, holdEmpty = 0] = timings;
+  return createPhases(inhale, hold, exhale, holdEmpty);
+};
+
+/**
+ * Brings a record saved before schema version 2 up to date
+ * Missing phases come from the legacy timings, a missing pattern ID from the
+ * predefined pattern with the same timings, and missing cycles from the duration.
+ * Records that can't be upgraded are returned as they are, to fail validation.
+ */
+const upgradeLegacyRecord = (record: unknown): unknown => {
+  if (!isRecord(record)) return record;
+
+  const phases = isPhaseList(record.phases) ? record.phases : getLegacyPhases(record);
+  if (!phases) return record;
+
+  const progression = isProgression(record.progression, phases) ? record.progression : null;
+  const patternId = record.patternId ?? findPatternByPhases(phases, progression)?.id;
+  const cycleDuration = getCycleDuration(phases);
+  const upgraded: StoredRecord = {
+    ...(patternId ? { patternId } : {}),
+    ...record,
+    phases,
+    endPhases: record.endPhases ?? phases,
+    pauses: record.pauses ?? [],
+    cycles: record.cycles ?? (isNumber(record.duration) ? Math.floor(record.duration / cycleDuration) : 0),
+  };
+  // The separate timings are replaced by the phases
+  delete upgraded.inhaleTime;
+  delete upgraded.holdTime;
+  delete upgraded.exhaleTime;
+  return upgraded;
+};
+
+/**
+ * Works out when a session started from when it ended, its duration and its pauses,
+ * for records saved before start times
+ * @returns {string | null} The start time, or null if the end time is invalid
+ */
+export const estimateStartTime = (date: string, duration: number, pauses: number[]): string | null => {
+  const endTime = Date.parse(date);
+  if (Number.isNaN(endTime)) return null;
+  const pausedTotal = pauses.reduce((acc, pause) => acc + pause, 0);
+  return new Date(endTime - (duration + pausedTotal) * 1000).toISOString();
+};
+
+/**
+ * Adds the start time to a record saved before schema version 3
+ * Records that can't be upgraded are returned as they are, to fail validation.
+ */
+const addStartTime = (record: unknown): unknown => {
+  if (!isRecord(record) || typeof record.date !== 'string' || !isNumber(record.duration)) return record;
+  const pauses = Array.isArray(record.pauses) ? record.pauses.filter(isNumber) : [];
+  const startedAt = estimateStartTime(record.date, record.duration, pauses);
+  return startedAt ? { startedAt, ...record } : record;
+};
+
+/**
+ * Migrations from each stored version to the next, keyed by the version they upgrade
+ */
+const MIGRATIONS: Record<number, (stored: StoredSessions) => StoredSessions> = {
+  1: ({ sessions }) => ({ version: 2, sessions: sessions.map(upgradeLegacyRecord) }),
+  2: ({ sessions }) => ({ version: 3, sessions: sessions.map(addStartTime) }),
+};
+
+const isSegmentRecord = (value: unknown): value is SessionSegmentRecord =>
+  isRecord(value) &&
+  typeof value.patternId === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.pattern === 'string' &&
+  isNumber(value.duration) &&
+  isNumber(value.cycles);
+
+const isGoal = (value: unknown): value is SessionGoal =>
+  isRecord(value) &&
+  (value.type === 'open' ||
+    (value.type === 'duration' && isNumber(value.seconds)) ||
+    (value.type === 'cycles' && isNumber(value.cycles)));
+
+const isTheme = (value: unknown): value is SessionTheme =>
+  isRecord(value) &&
+  typeof value.primary === 'string' &&
+  typeof value.secondary === 'string' &&
+  typeof value.background === 'string';
+
+const isPhaseLog = (value: unknown): value is PhaseTransition[] =>
+  Array.isArray(value) &&
+  value.every(
+    entry =>
+      Array.isArray(entry) &&
+      entry.length === 2 &&
+      isNumber(entry[0]) &&
+      typeof entry[1] === 'string' &&
+      entry[1] in PHASE_LABELS
+  );
+
+const isMoodCheckIn = (value: unknown): value is MoodCheckIn =>
+  isRecord(value) &&
+  isNumber(value.stress) &&
+  value.stress >= STRESS_SCALE.min &&
+  value.stress <= STRESS_SCALE.max &&
+  typeof value.mood === 'string' &&
+  value.mood in MOODS;
+
+const isCheckIn = (value: unknown): value is SessionCheckIn =>
+  isRecord(value) &&
+  (value.before === undefined || isMoodCheckIn(value.before)) &&
+  (value.after === undefined || isMoodCheckIn(value.after));
+
+const isDate = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+/**
+ * Checks that a stored record is a valid session in the current schema
+ * @param record - The stored record
+ * @returns {Session | null} The session, or null if the record is invalid
+ */
+export const parseSession = (record: unknown): Session | null => {
+  if (!isRecord(record)) return null;
+  const {
+    id, patternId, pattern, duration, startedAt, date, phases, endPhases, progression, pauses, cycles, routine,
+    status, goal, theme, phaseLog, checkIn, notes, tags,
+  } = record;
+  const isValid =
+    typeof id === 'string' &&
+    (patternId === undefined || typeof patternId === 'string') &&
+    typeof pattern === 'string' &&
+    isNumber(duration) && duration >= 0 &&
+    isDate(startedAt) &&
+    isDate(date) &&
+    isPhaseList(phases) &&
+    isPhaseList(endPhases) &&
+    (progression === undefined || isProgression(progression, phases)) &&
+    Array.isArray(pauses) && pauses.every(isNumber) &&
+    isNumber(cycles) &&
+    (routine === undefined ||
+      (isRecord(routine) && typeof routine.name === 'string' &&
+        Array.isArray(routine.segments) && routine.segments.every(isSegmentRecord))) &&
+    (status === undefined || SESSION_STATUSES.includes(status as SessionStatus)) &&
+    (goal === undefined || isGoal(goal)) &&
+    (theme === undefined || isTheme(theme)) &&
+    (phaseLog === undefined || isPhaseLog(phaseLog)) &&
+    (checkIn === undefined || isCheckIn(checkIn)) &&
+    (notes === undefined || typeof notes === 'string') &&
+    (tags === undefined || (Array.isArray(tags) && tags.every(tag => typeof tag === 'string')));
+  return isValid ? (record as unknown as Session) : null;
+};
+
+/**
+ * Brings stored sessions up to the current schema
+ * The unwrapped array of schema version 1 is reported as version 1. Sessions from a
+ * newer version are returned as they are, to be validated one by one.
+ * @param stored - The parsed contents of the stored sessions
+ * @returns {unknown[] | null} The records in the current schema, not yet validated, or
+ *   null if `stored` is not sessions in a known version
+ */
+export const migrateStoredSessions = (stored: unknown): unknown[] | null => {
+  let current: StoredSessions;
+  if (Array.isArray(stored)) {
+    current = { version: 1, sessions: stored };
+  } else if (
+    isRecord(stored) &&
+    Number.isInteger(stored.version) &&
+    (stored.version as number) >= 1 &&
+    Array.isArray(stored.sessions)
+  ) {
+    current = { version: stored.version as number, sessions: stored.sessions };
+  } else {
+    return null;
+  }
+  while (current.version < SESSIONS_VERSION) {
+    current = MIGRATIONS[current.version](current);
+  }
+  return current.sessions;
+};
+
+/**
+ * Reads the stored sessions text and brings it up to the current schema
+ * @param text - The stored sessions
+ * @returns {unknown[] | null} The records, not yet validated, or null if the text is
+ *   not valid JSON or not sessions in a known version
+ */
+export const readStoredSessions = (text: string): unknown[] | null => {
+  try {
+    return migrateStoredSessions(JSON.parse(text));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Keeps records, or whole stored values, that could not be read, after any set aside before
+ * @param storage - Where the sessions are kept
+ * @param unreadable - The records or values to keep
+ */
+export const setAsideUnreadable = (storage: Storage, unreadable: unknown[]) => {
+  const stored = storage.getItem(UNREADABLE_STORAGE_KEY);
+  let previous: unknown[] = [];
+  if (stored) {
+    try {
+      const parsed: unknown = JSON.parse(stored);
+      previous = Array.isArray(parsed) ? parsed : [stored];
+    } catch {
+      previous = [stored];
+    }
+  }
+  storage.setItem(UNREADABLE_STORAGE_KEY, JSON.stringify([...previous, ...unreadable]));
+};
+
+/**
+ * Checks whether a session matches every filter of a query
+ */
+export const matchesQuery = (session: Session, { from, to, patternId }: SessionQuery): boolean => {
+  const time = Date.parse(session.date);
+  return (
+    (from === undefined || time >= Date.parse(from)) &&
+    (to === undefined || time < Date.parse(to)) &&
+    (patternId === undefined || session.patternId === patternId)
+  );
+};
@@ -0,0 +1,132 @@
+/**
+ * Repository for completed breathing sessions, the only code that reads or writes them.
+ * Sessions are kept in IndexedDB where the browser has it, indexed by date and by
+ * pattern, so long histories can be paged through and queried by date range without
+ * loading them all. Elsewhere, or while the database can't be opened, they are kept in
+ * localStorage under `breathing-sessions`.
+ * Records that fail validation are skipped on read and left in storage untouched; a
+ * stored history that can't be read at all is set aside rather than breaking every call.
+ */
+import {
+  matchesQuery,
+  parseSession,
+  readStoredSessions,
+  SESSIONS_STORAGE_KEY,
+  SESSIONS_VERSION,
+  setAsideUnreadable,
+  type Session,
+  type SessionQuery,
+  type StoredSessions,
+} from './sessionRecords';
+import { createIndexedDbSessionRepository } from './sessionDatabase';
+
+export type { Session, SessionQuery, SessionSegmentRecord, SessionStatus } from './sessionRecords';
+
+/**
+ * A page of sessions: everything matching a query, newest first, from `offset`
+ */
+export interface SessionPageRequest extends SessionQuery {
+  offset: number;
+  limit: number;
+}
+
+/**
+ * One page of sessions and the number of sessions matching the query
+ */
+export interface SessionPage {
+  sessions: Session[];
+  total: number;
+}
+
+/**
+ * Public interface of the session repository
+ * Sessions are listed oldest first.
+ */
+export interface SessionRepository {
+  add: (session: Session) => Promise<void>;
+  list: () => Promise<Session[]>;
+  listIds: () => Promise<string[]>;
+  query: (query: SessionQuery) => Promise<Session[]>;
+  getPage: (request: SessionPageRequest) => Promise<SessionPage>;
+  update: (id: string, changes: Partial<Omit<Session, 'id'>>) => Promise<Session | null>;
+  remove: (id: string) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+/**
+ * Creates a session repository backed by localStorage
+ * The whole history is read and written at once, which is fine for short histories.
+ *
+ * @param storage - Where the sessions are kept; replaceable for testing
+ * @returns {SessionRepository} A new repository
+ */
+export const createLocalSessionRepository = (storage: Storage = localStorage): SessionRepository => {
+  /**
+   * Reads the stored records, migrated to the current schema
+   * A history that can't be read is set aside, so new sessions don't overwrite it.
+   */
+  const readRecords = (): unknown[] => {
+    const storedSessions = storage.getItem(SESSIONS_STORAGE_KEY);
+    if (!storedSessions) return [];
+    const records = readStoredSessions(storedSessions);
+    if (records) return records;
+    setAsideUnreadable(storage, [storedSessions]);
+    storage.removeItem(SESSIONS_STORAGE_KEY);
+    return [];
+  };
+
+  const writeRecords = (sessions: unknown[]) => {
+    const stored: StoredSessions = { version: SESSIONS_VERSION, sessions };
+    storage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(stored));
+  };
+
+  const readSessions = (): Session[] =>
+    readRecords().flatMap(record => parseSession(record) ?? []);
+
+  const add = async (session: Session) => {
+    writeRecords([...readRecords(), session]);
+  };
+
+  const list = async () => readSessions();
+
+  const listIds = async () => readSessions().map(session => session.id);
+
+  const query = async (filters: SessionQuery) =>
+    readSessions().filter(session => matchesQuery(session, filters));
+
+  const getPage = async ({ offset, limit, ...filters }: SessionPageRequest) => {
+    const sessions = (await query(filters)).sort((a, b) => Date.parse(b.date) - Date.parse(a.date));
+    return { sessions: sessions.slice(offset, offset + limit), total: sessions.length };
+  };
+
+  const update = async (id: string, changes: Partial<Omit<Session, 'id'>>) => {
+    let updated: Session | null = null;
+    writeRecords(
+      readRecords().map(record => {
+        const session = parseSession(record);
+        if (session?.id !== id) return record;
+        updated = { ...session, ...changes, id };
+        return updated;
+      })
+    );
+    return updated;
+  };
+
+  const remove = async (id: string) => {
+    writeRecords(readRecords().filter(record => parseSession(record)?.id !== id));
+  };
+
+  const clear = async () => {
+    storage.removeItem(SESSIONS_STORAGE_KEY);
+  };
+
+  return { add, list, listIds, query, getPage, update, remove, clear };
+};
+
+/**
+ * Shared session repository used by the app
+ */
+export const sessionRepository: SessionRepository =
+  typeof indexedDB !== 'undefined'
+    ? createIndexedDbSessionRepository(createLocalSessionRepository())
+    : createLocalSessionRepository();
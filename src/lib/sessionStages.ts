@@ -0,0 +1,62 @@
+/**
+ * Preferences for the stages around a breathing session:
+ * - A countdown before the session starts
+ * - An optional settle-in period of natural breathing before the pattern begins
+ * - An optional cool-down after the session while the guide returns to rest
+ * Settle-in and cool-down happen outside the session engine, so they are never
+ * counted in a saved session's time.
+ */
+
+/**
+ * Session stage preferences, in seconds; 0 turns a stage off
+ */
+export interface SessionStageSettings {
+  countdown: number;
+  settleIn: number;
+  coolDown: number;
+}
+
+export const DEFAULT_SESSION_STAGE_SETTINGS: SessionStageSettings = {
+  countdown: 3,
+  settleIn: 0,
+  coolDown: 0
+};
+
+/**
+ * Choices offered for each stage, in seconds
+ */
+export const STAGE_OPTIONS = {
+  countdown: [0, 3, 5, 10],
+  settleIn: [0, 30, 60, 120],
+  coolDown: [0, 15, 30, 60]
+} as const;
+
+/**
+ * Prompts shown in turn while settling in
+ */
+export const SETTLE_IN_PROMPTS = [
+  'Find a comfortable position',
+  'Breathe naturally, without changing anything',
+  'Let your shoulders drop',
+  'Notice the air moving in and out',
+  'Soften your jaw and your hands',
+  'Get ready to follow the pattern'
+] as const;
+
+/**
+ * Seconds each settle-in prompt stays on screen
+ */
+export const SETTLE_IN_PROMPT_INTERVAL = 8;
+
+/**
+ * Prompt shown during the cool-down
+ */
+export const COOL_DOWN_PROMPT = 'Let your breath return to its own rhythm';
+
+/**
+ * Formats a stage length for a settings option
+ * @param seconds - The stage length
+ * @returns {string} "Off", "30 s" or "2 min"
+ */
+export const formatStageLength = (seconds: number): string =>
+  seconds === 0 ? 'Off' : seconds >= 60 && seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds} s`;
@@ -0,0 +1,417 @@
+/**
+ * Export and import of the session history, for backups and for moving it between browsers.
+ * - CSV, one session per row, for spreadsheets; phase lists are written as
+ *   `inhale:4 hold-full:4 exhale:6`, with the fill of a partial inhale as `inhale:2@0.8`,
+ *   phase logs as `inhale@0 hold-full@4`, pauses (in seconds) and tags separated by `;`,
+ *   and progressions, routine breakdowns, goals, themes and check-ins as JSON. Notes and
+ *   tags that a spreadsheet would run as a formula are prefixed with `'`
+ * - JSON, wrapping the sessions with the version of their schema
+ * Imports accept either format, including JSON saved by older versions. Every session
+ * is validated, and rows that can't be read are reported rather than imported.
+ */
+import { isRecord, PHASE_LABELS, type BreathingPhase, type PhaseType } from './breathingPhases';
+import type { PhaseTransition } from './sessionEngine';
+import { parseTags } from './checkIns';
+import {
+  estimateStartTime,
+  migrateStoredSessions,
+  parseSession,
+  SESSIONS_VERSION,
+  type Session,
+} from './sessionRecords';
+
+export type ExportFormat = 'csv' | 'json';
+
+/**
+ * Identifies JSON files written by this app
+ */
+const JSON_FORMAT = 'breathing-sessions';
+
+/**
+ * CSV columns, in the order they are written
+ */
+const CSV_COLUMNS = [
+  'id',
+  'startedAt',
+  'date',
+  'patternId',
+  'pattern',
+  'duration',
+  'cycles',
+  'pauses',
+  'phases',
+  'endPhases',
+  'progression',
+  'routine',
+  'status',
+  'goal',
+  'theme',
+  'phaseLog',
+  'checkIn',
+  'notes',
+  'tags',
+] as const;
+
+type CsvColumn = typeof CSV_COLUMNS[number];
+
+/**
+ * Columns that exports from older versions, or of older sessions, may leave out or empty
+ */
+const OPTIONAL_COLUMNS: CsvColumn[] = [
+  'patternId',
+  'startedAt',
+  'progression',
+  'routine',
+  'status',
+  'goal',
+  'theme',
+  'phaseLog',
+  'checkIn',
+  'notes',
+  'tags',
+];
+
+/**
+ * Columns holding JSON
+ */
+const JSON_COLUMNS = ['progression', 'routine', 'goal', 'theme', 'checkIn'] as const;
+
+/**
+ * A row or entry of an import that could not be read
+ * - row: 1-based data row for CSV (after the header), 1-based entry for JSON
+ */
+export interface ImportError {
+  row: number;
+  message: string;
+}
+
+/**
+ * What an import file contains
+ */
+export interface ParsedImport {
+  sessions: Session[];
+  errors: ImportError[];
+}
+
+/**
+ * What an import will do to the history
+ * - added: Sessions not in the history yet
+ * - duplicates: Sessions already in the history, or repeated in the file
+ */
+export interface ImportPlan {
+  added: Session[];
+  duplicates: Session[];
+  errors: ImportError[];
+}
+
+/**
+ * Formats a phase list for a CSV cell
+ */
+const formatPhaseList = (phases: BreathingPhase[]) =>
+  phases
+    .map(phase => `${phase.type}:${phase.duration}${phase.level === undefined ? '' : `@${phase.level}`}`)
+    .join(' ');
+
+/**
+ * Reads a phase list from a CSV cell
+ * @returns {BreathingPhase[] | null} The phases, or null if the cell is malformed
+ */
+const parsePhaseList = (cell: string): BreathingPhase[] | null => {
+  const phases = cell.trim().split(/\s+/).map((part): BreathingPhase | null => {
+    const [type, timing] = part.split(':');
+    if (!(type in PHASE_LABELS) || timing === undefined) return null;
+    const [duration, level] = timing.split('@');
+    if (duration === '') return null;
+    if (level === undefined) return { type: type as PhaseType, duration: Number(duration) };
+    const fill = level === '' ? NaN : Number(level);
+    return fill > 0 && fill <= 1 ? { type: type as PhaseType, duration: Number(duration), level: fill } : null;
+  });
+  return phases.every(phase => phase !== null) ? phases : null;
+};
+
+/**
+ * Formats a phase log for a CSV cell
+ */
+const formatPhaseLog = (phaseLog: PhaseTransition[]) =>
+  phaseLog.map(([at, phase]) => `${phase}@${at}`).join(' ');
+
+/**
+ * Reads a phase log from a CSV cell
+ * @returns {PhaseTransition[] | null} The log, or null if the cell is malformed
+ */
+const parsePhaseLog = (cell: string): PhaseTransition[] | null => {
+  const log = cell.trim().split(/\s+/).map(part => {
+    const [phase, at] = part.split('@');
+    return phase in PHASE_LABELS && at !== undefined && at !== ''
+      ? ([Number(at), phase as PhaseType] as PhaseTransition)
+      : null;
+  });
+  return log.every(entry => entry !== null) ? log : null;
+};
+
+/**
+ * Text a spreadsheet would run as a formula, after any apostrophes added to stop it
+ */
+const FORMULA_START = /^'*[=+\-@\t\r]/;
+
+/**
+ * Prefixes text that a spreadsheet would run as a formula with an apostrophe,
+ * so it is shown as text
+ */
+const escapeFormula = (value: string) => (FORMULA_START.test(value) ? `'${value}` : value);
+
+/**
+ * Removes the apostrophe added by `escapeFormula`
+ */
+const unescapeFormula = (value: string) =>
+  value.startsWith("'") && FORMULA_START.test(value) ? value.slice(1) : value;
+
+/**
+ * Quotes a CSV cell when it contains a separator, quote or line break
+ */
+const toCsvCell = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Splits CSV text into rows of cells, following RFC 4180 quoting
+ */
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let isQuoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (isQuoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Blank lines are not rows
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+/**
+ * Writes sessions as CSV with a header row
+ * @param sessions - The sessions to export
+ * @returns {string} The CSV text
+ */
+export const exportSessionsCsv = (sessions: Session[]): string => {
+  const cells = (session: Session): Record<CsvColumn, string> => ({
+    id: session.id,
+    startedAt: session.startedAt,
+    date: session.date,
+    patternId: session.patternId ?? '',
+    pattern: session.pattern,
+    duration: String(session.duration),
+    cycles: String(session.cycles),
+    pauses: session.pauses.join(';'),
+    phases: formatPhaseList(session.phases),
+    endPhases: formatPhaseList(session.endPhases),
+    progression: session.progression ? JSON.stringify(session.progression) : '',
+    routine: session.routine ? JSON.stringify(session.routine) : '',
+    status: session.status ?? '',
+    goal: session.goal ? JSON.stringify(session.goal) : '',
+    theme: session.theme ? JSON.stringify(session.theme) : '',
+    phaseLog: session.phaseLog ? formatPhaseLog(session.phaseLog) : '',
+    checkIn: session.checkIn ? JSON.stringify(session.checkIn) : '',
+    notes: escapeFormula(session.notes ?? ''),
+    tags: escapeFormula(session.tags?.join(';') ?? ''),
+  });
+  return [
+    CSV_COLUMNS.join(','),
+    ...sessions.map(session => {
+      const row = cells(session);
+      return CSV_COLUMNS.map(column => toCsvCell(row[column])).join(',');
+    }),
+  ].join('\r\n');
+};
+
+/**
+ * Writes sessions as versioned JSON
+ * @param sessions - The sessions to export
+ * @returns {string} The JSON text
+ */
+export const exportSessionsJson = (sessions: Session[]): string =>
+  JSON.stringify(
+    { format: JSON_FORMAT, version: SESSIONS_VERSION, exportedAt: new Date().toISOString(), sessions },
+    null,
+    2
+  );
+
+/**
+ * Stores the dates in the app's own ISO form, so imported sessions sort with the rest
+ */
+const normalizeDates = (session: Session): Session => ({
+  ...session,
+  startedAt: new Date(session.startedAt).toISOString(),
+  date: new Date(session.date).toISOString(),
+});
+
+/**
+ * Reads the sessions of a CSV export
+ */
+const parseSessionsCsv = (text: string): ParsedImport => {
+  const [header, ...rows] = parseCsvRows(text);
+  const columns = (header ?? []).map(name => name.trim());
+  const missing = CSV_COLUMNS.filter(column => !columns.includes(column) && !OPTIONAL_COLUMNS.includes(column));
+  if (missing.length > 0) {
+    return { sessions: [], errors: [{ row: 0, message: `Missing columns: ${missing.join(', ')}` }] };
+  }
+
+  const sessions: Session[] = [];
+  const errors: ImportError[] = [];
+  rows.forEach((cells, index) => {
+    const row = index + 1;
+    const cell = (column: CsvColumn) => cells[columns.indexOf(column)]?.trim() ?? '';
+    const phases = parsePhaseList(cell('phases'));
+    const endPhases = parsePhaseList(cell('endPhases')) ?? phases;
+    if (!phases || !endPhases) {
+      errors.push({ row, message: 'Phases are not in the form "inhale:4 exhale:6"' });
+      return;
+    }
+
+    const phaseLog = cell('phaseLog') ? parsePhaseLog(cell('phaseLog')) : undefined;
+    if (phaseLog === null) {
+      errors.push({ row, message: 'Phase log is not in the form "inhale@0 exhale@4"' });
+      return;
+    }
+
+    const json: Partial<Record<typeof JSON_COLUMNS[number], unknown>> = {};
+    try {
+      JSON_COLUMNS.forEach(column => {
+        if (cell(column)) json[column] = JSON.parse(cell(column));
+      });
+    } catch {
+      errors.push({ row, message: 'Progression, routine, goal, theme or check-in is not valid JSON' });
+      return;
+    }
+
+    const duration = cell('duration') === '' ? NaN : Number(cell('duration'));
+    const pauses = cell('pauses') ? cell('pauses').split(';').map(Number) : [];
+    const session = parseSession({
+      id: cell('id'),
+      startedAt: cell('startedAt') || estimateStartTime(cell('date'), duration, pauses),
+      date: cell('date'),
+      ...(cell('patternId') ? { patternId: cell('patternId') } : {}),
+      pattern: cell('pattern'),
+      duration,
+      cycles: cell('cycles') === '' ? NaN : Number(cell('cycles')),
+      pauses,
+      phases,
+      endPhases,
+      ...json,
+      ...(cell('status') ? { status: cell('status') } : {}),
+      ...(phaseLog ? { phaseLog } : {}),
+      ...(cell('notes') ? { notes: unescapeFormula(cell('notes')) } : {}),
+      ...(cell('tags') ? { tags: parseTags(unescapeFormula(cell('tags'))) } : {}),
+    });
+    if (session && session.id) {
+      sessions.push(normalizeDates(session));
+    } else {
+      errors.push({ row, message: 'Missing or invalid ID, dates, duration, cycles, pauses, status, goal, theme or check-in' });
+    }
+  });
+  return { sessions, errors };
+};
+
+/**
+ * Reads the sessions of a JSON export, or of a session history saved by an older version
+ */
+const parseSessionsJson = (text: string): ParsedImport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { sessions: [], errors: [{ row: 0, message: 'The file is not valid JSON' }] };
+  }
+
+  const exported = isRecord(parsed) ? parsed : null;
+  if (!Array.isArray(parsed) && !Array.isArray(exported?.sessions)) {
+    return { sessions: [], errors: [{ row: 0, message: 'The file does not contain sessions' }] };
+  }
+  // Only versions the migrations know how to upgrade can be read
+  const version = exported?.version ?? 1;
+  if (typeof version === 'number' && version > SESSIONS_VERSION) {
+    return { sessions: [], errors: [{ row: 0, message: 'The file was exported by a newer version of the app' }] };
+  }
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { sessions: [], errors: [{ row: 0, message: 'The file has an unknown format version' }] };
+  }
+
+  const records = migrateStoredSessions(exported ? { version, sessions: exported.sessions } : parsed) ?? [];
+  const sessions: Session[] = [];
+  const errors: ImportError[] = [];
+  records.forEach((record, index) => {
+    const session = parseSession(record);
+    if (session) {
+      sessions.push(normalizeDates(session));
+    } else {
+      errors.push({ row: index + 1, message: 'Not a valid session' });
+    }
+  });
+  return { sessions, errors };
+};
+
+/**
+ * Reads an import file, as JSON if it looks like JSON and as CSV otherwise
+ * @param text - The contents of the file
+ * @returns {ParsedImport} The valid sessions and the rows that could not be read
+ */
+export const parseSessionsImport = (text: string): ParsedImport => {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  return trimmed.startsWith('{') || trimmed.startsWith('[')
+    ? parseSessionsJson(trimmed)
+    : parseSessionsCsv(trimmed);
+};
+
+/**
+ * Works out which imported sessions are new, matching sessions by ID
+ * @param parsed - The contents of the import file
+ * @param existingIds - IDs of the sessions already in the history
+ * @returns {ImportPlan} The sessions to add and the duplicates to skip
+ */
+export const planImport = (parsed: ParsedImport, existingIds: string[]): ImportPlan => {
+  const seen = new Set(existingIds);
+  const added: Session[] = [];
+  const duplicates: Session[] = [];
+  parsed.sessions.forEach(session => {
+    if (seen.has(session.id)) {
+      duplicates.push(session);
+    } else {
+      seen.add(session.id);
+      added.push(session);
+    }
+  });
+  return { added, duplicates, errors: parsed.errors };
+};
+
+/**
+ * Builds the file name of an export, e.g. "breathing-sessions-2024-05-01.csv"
+ */
+export const getExportFileName = (format: ExportFormat) =>
+  `${JSON_FORMAT}-${new Date().toISOString().slice(0, 10)}.${format}`;
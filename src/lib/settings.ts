@@ -0,0 +1,257 @@
+/**
+ * User preferences.
+ * Preferences are stored as one JSON object in localStorage under `breathing-settings`,
+ * together with the version of their format. Older formats are migrated step by step
+ * on load, and each section is then merged over its defaults, so preferences saved by
+ * an older version pick up new options automatically. Every stored value is checked,
+ * and one that can't be read, such as a tone set that no longer exists, falls back
+ * to its default rather than stopping the app from starting.
+ */
+import { DEFAULT_AUDIO_SETTINGS, TONE_SETS, type AudioSettings } from './audioCues';
+import { DEFAULT_VOICE_SETTINGS, VOICE_LIMITS, VOICE_MODES, type VoiceSettings } from './voiceCoach';
+import { DEFAULT_HAPTIC_SETTINGS, HAPTIC_PATTERNS, type HapticSettings } from './haptics';
+import { DEFAULT_SOUNDSCAPE_SETTINGS, SOUNDSCAPES, type SoundscapeSettings } from './soundscape';
+import { DEFAULT_ACCESSIBILITY_SETTINGS, MOTION_PREFERENCES, type AccessibilitySettings } from './accessibility';
+import { DEFAULT_SHORTCUTS, type ShortcutBindings } from './shortcuts';
+import { COUNT_STYLES, DEFAULT_DISPLAY_SETTINGS, DISPLAY_MODES, type DisplaySettings } from './display';
+import { DEFAULT_SESSION_STAGE_SETTINGS, STAGE_OPTIONS, type SessionStageSettings } from './sessionStages';
+import { DEFAULT_BACKGROUND_SETTINGS, HIDDEN_TAB_BEHAVIORS, type BackgroundSettings } from './wakeLock';
+import { DEFAULT_GENERAL_SETTINGS, type GeneralSettings } from './generalSettings';
+import { DEFAULT_CHECK_IN_SETTINGS, type CheckInSettings } from './checkIns';
+import { isRecord } from './breathingPhases';
+
+/**
+ * All user preferences, grouped by feature
+ */
+export interface Settings {
+  general: GeneralSettings;
+  audio: AudioSettings;
+  voice: VoiceSettings;
+  haptics: HapticSettings;
+  ambient: SoundscapeSettings;
+  accessibility: AccessibilitySettings;
+  shortcuts: ShortcutBindings;
+  display: DisplaySettings;
+  stages: SessionStageSettings;
+  background: BackgroundSettings;
+  checkIns: CheckInSettings;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  general: DEFAULT_GENERAL_SETTINGS,
+  audio: DEFAULT_AUDIO_SETTINGS,
+  voice: DEFAULT_VOICE_SETTINGS,
+  haptics: DEFAULT_HAPTIC_SETTINGS,
+  ambient: DEFAULT_SOUNDSCAPE_SETTINGS,
+  accessibility: DEFAULT_ACCESSIBILITY_SETTINGS,
+  shortcuts: DEFAULT_SHORTCUTS,
+  display: DEFAULT_DISPLAY_SETTINGS,
+  stages: DEFAULT_SESSION_STAGE_SETTINGS,
+  background: DEFAULT_BACKGROUND_SETTINGS,
+  checkIns: DEFAULT_CHECK_IN_SETTINGS
+};
+
+const STORAGE_KEY = 'breathing-settings';
+
+/**
+ * Version of the stored format
+ * - 1: The preferences object on its own
+ * - 2: The preferences wrapped with their version; adds general preferences
+ */
+const SETTINGS_VERSION = 2;
+
+/**
+ * Preferences as stored, with the version of their format
+ */
+interface StoredSettings {
+  version: number;
+  settings: Partial<Settings>;
+}
+
+/**
+ * Migrations from each stored version to the next, keyed by the version they upgrade
+ */
+const MIGRATIONS: Record<number, (stored: StoredSettings) => StoredSettings> = {
+  1: ({ settings }) => ({ version: 2, settings })
+};
+
+/**
+ * Reads the stored preferences, reporting the unwrapped format as version 1
+ * @returns {StoredSettings | null} The stored preferences, or null if there are none
+ *   or they can't be read, in which case the defaults are used
+ */
+const readStoredSettings = (): StoredSettings | null => {
+  const storedSettings = localStorage.getItem(STORAGE_KEY);
+  if (!storedSettings) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(storedSettings);
+  } catch {
+    return null;
+  }
+  if (!isRecord(parsed)) return null;
+  if (!('version' in parsed)) return { version: 1, settings: parsed };
+  const { version, settings } = parsed;
+  return typeof version === 'number' && Number.isInteger(version) && version >= 1 && isRecord(settings)
+    ? { version, settings }
+    : null;
+};
+
+/**
+ * Checks whether a stored preference value can be used
+ */
+type ValueCheck = (value: unknown) => boolean;
+
+/**
+ * Checks for every preference of a section
+ */
+type SectionChecks<T> = { [K in keyof T]: ValueCheck };
+
+const isBoolean: ValueCheck = value => typeof value === 'boolean';
+const isString: ValueCheck = value => typeof value === 'string';
+const isOneOf = (options: readonly unknown[]): ValueCheck => value => options.includes(value);
+const isKeyOf = (record: Record<string, unknown>): ValueCheck => isOneOf(Object.keys(record));
+const isBetween = (min: number, max: number): ValueCheck => value =>
+  typeof value === 'number' && value >= min && value <= max;
+const orNull = (check: ValueCheck): ValueCheck => value => value === null || check(value);
+
+const VOLUME_CHECKS: SectionChecks<AudioSettings['volumes']> = {
+  inhale: isBetween(0, 1),
+  hold: isBetween(0, 1),
+  exhale: isBetween(0, 1)
+};
+
+/**
+ * Checks for each section of the preferences; audio volumes are checked on their own
+ */
+const SETTINGS_CHECKS: { [K in keyof Settings]: SectionChecks<Settings[K]> } = {
+  general: {
+    defaultPattern: isString,
+    theme: isString,
+    lastPatternId: orNull(isString)
+  },
+  audio: {
+    enabled: isBoolean,
+    toneSet: isKeyOf(TONE_SETS),
+    volumes: isRecord,
+    continuousTone: isBoolean,
+    continuousVolume: isBetween(0, 1)
+  },
+  voice: {
+    enabled: isBoolean,
+    voiceURI: orNull(isString),
+    rate: isBetween(VOICE_LIMITS.minRate, VOICE_LIMITS.maxRate),
+    volume: isBetween(0, 1),
+    mode: isKeyOf(VOICE_MODES),
+    firstCycles: orNull(value => Number.isInteger(value) && isBetween(1, VOICE_LIMITS.maxCycles)(value)),
+    speakInitialCountdown: isBoolean
+  },
+  haptics: {
+    enabled: isBoolean,
+    intensity: isBetween(0, 1),
+    pattern: isKeyOf(HAPTIC_PATTERNS),
+    pulseTrain: isBoolean
+  },
+  ambient: {
+    enabled: isBoolean,
+    soundscape: value => value === 'theme' || isKeyOf(SOUNDSCAPES)(value),
+    volume: isBetween(0, 1),
+    texture: isBetween(0, 1)
+  },
+  accessibility: {
+    motion: isKeyOf(MOTION_PREFERENCES),
+    announcements: isBoolean
+  },
+  shortcuts: {
+    startStop: isString,
+    pause: isString,
+    fullscreen: isString,
+    help: isString,
+    stats: isString,
+    shortcuts: isString
+  },
+  display: {
+    mode: isKeyOf(DISPLAY_MODES),
+    countStyle: isKeyOf(COUNT_STYLES),
+    progressArc: isBoolean
+  },
+  stages: {
+    countdown: isOneOf(STAGE_OPTIONS.countdown),
+    settleIn: isOneOf(STAGE_OPTIONS.settleIn),
+    coolDown: isOneOf(STAGE_OPTIONS.coolDown)
+  },
+  background: {
+    keepAwake: isBoolean,
+    whenHidden: isKeyOf(HIDDEN_TAB_BEHAVIORS)
+  },
+  checkIns: {
+    enabled: isBoolean
+  }
+};
+
+/**
+ * Merges a saved section of the preferences over its defaults, keeping only the
+ * saved values that pass their checks
+ * @param defaults - The section's defaults
+ * @param saved - The saved section, if any
+ * @param checks - The checks for each of the section's preferences
+ * @returns The merged section
+ */
+const mergeSection = <T extends object>(defaults: T, saved: unknown, checks: SectionChecks<T>): T => {
+  const merged = { ...defaults };
+  if (!isRecord(saved)) return merged;
+  for (const key of Object.keys(checks) as (keyof T & string)[]) {
+    if (checks[key](saved[key])) merged[key] = saved[key] as T[keyof T & string];
+  }
+  return merged;
+};
+
+/**
+ * Brings stored preferences up to the current version
+ * Preferences from a newer version are used as they are; an older version without
+ * a migration is dropped in favour of the defaults.
+ */
+const migrateSettings = (stored: StoredSettings): Partial<Settings> => {
+  let current = stored;
+  while (current.version < SETTINGS_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) return {};
+    current = migrate(current);
+  }
+  return current.settings;
+};
+
+/**
+ * Loads the user's preferences
+ * @returns {Settings} The saved preferences merged over the defaults
+ */
+export const loadSettings = (): Settings => {
+  const stored = readStoredSettings();
+  const saved: Partial<Settings> = stored ? migrateSettings(stored) : {};
+  const audio = mergeSection(DEFAULT_SETTINGS.audio, saved.audio, SETTINGS_CHECKS.audio);
+  return {
+    general: mergeSection(DEFAULT_SETTINGS.general, saved.general, SETTINGS_CHECKS.general),
+    audio: {
+      ...audio,
+      volumes: mergeSection(DEFAULT_SETTINGS.audio.volumes, audio.volumes, VOLUME_CHECKS)
+    },
+    voice: mergeSection(DEFAULT_SETTINGS.voice, saved.voice, SETTINGS_CHECKS.voice),
+    haptics: mergeSection(DEFAULT_SETTINGS.haptics, saved.haptics, SETTINGS_CHECKS.haptics),
+    ambient: mergeSection(DEFAULT_SETTINGS.ambient, saved.ambient, SETTINGS_CHECKS.ambient),
+    accessibility: mergeSection(DEFAULT_SETTINGS.accessibility, saved.accessibility, SETTINGS_CHECKS.accessibility),
+    shortcuts: mergeSection(DEFAULT_SETTINGS.shortcuts, saved.shortcuts, SETTINGS_CHECKS.shortcuts),
+    display: mergeSection(DEFAULT_SETTINGS.display, saved.display, SETTINGS_CHECKS.display),
+    stages: mergeSection(DEFAULT_SETTINGS.stages, saved.stages, SETTINGS_CHECKS.stages),
+    background: mergeSection(DEFAULT_SETTINGS.background, saved.background, SETTINGS_CHECKS.background),
+    checkIns: mergeSection(DEFAULT_SETTINGS.checkIns, saved.checkIns, SETTINGS_CHECKS.checkIns)
+  };
+};
+
+/**
+ * Saves the user's preferences in the current format
+ * @param settings - The preferences to save
+ */
+export const saveSettings = (settings: Settings) => {
+  const stored: StoredSettings = { version: SETTINGS_VERSION, settings };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
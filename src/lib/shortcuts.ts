@@ -0,0 +1,115 @@
+/**
+ * Keyboard shortcuts for the home page.
+ * Most actions can be rebound to a single key; Esc (close overlays) and 1-9 (pick a
+ * pattern from the list) are fixed. Keys are stored in the form returned by `getEventKey`.
+ */
+
+/**
+ * Actions that can be bound to a key
+ */
+export type ShortcutAction = 'startStop' | 'pause' | 'fullscreen' | 'help' | 'stats' | 'shortcuts';
+
+/**
+ * The key bound to each action
+ */
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+/**
+ * Descriptions of the actions, in the order they are listed
+ */
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  startStop: 'Start or stop a session',
+  pause: 'Pause or resume',
+  fullscreen: 'Toggle fullscreen',
+  help: 'Open help',
+  stats: 'Go to stats',
+  shortcuts: 'Show keyboard shortcuts'
+};
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  startStop: 'Space',
+  pause: 'p',
+  fullscreen: 'f',
+  help: 'h',
+  stats: 's',
+  shortcuts: '?'
+};
+
+/**
+ * Closes the open overlay or cancels the countdown
+ */
+export const CLOSE_KEY = 'Escape';
+
+/**
+ * Pick the first nine patterns of the pattern list
+ */
+export const PATTERN_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'] as const;
+
+/**
+ * Keys that can't be bound to an action
+ */
+const RESERVED_KEYS: string[] = [CLOSE_KEY, 'Tab', 'Enter', ...PATTERN_KEYS];
+
+/**
+ * Returns the key of a keyboard event in the stored form:
+ * single characters in lower case, "Space" for the space bar, other keys by name
+ * @param event - The keyboard event
+ * @returns {string} The key
+ */
+export const getEventKey = (event: Pick<KeyboardEvent, 'key'>): string =>
+  event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toLowerCase() : event.key;
+
+/**
+ * Formats a stored key for display
+ * @param key - The stored key
+ * @returns {string} The key as shown to the user
+ */
+export const formatKey = (key: string): string =>
+  key === CLOSE_KEY ? 'Esc' : key.length === 1 ? key.toUpperCase() : key;
+
+/**
+ * Returns whether a key can be bound to an action
+ */
+export const isBindableKey = (key: string): boolean =>
+  !RESERVED_KEYS.includes(key) && !['Shift', 'Control', 'Alt', 'Meta'].includes(key);
+
+/**
+ * Finds the action bound to a key
+ * @param bindings - The current bindings
+ * @param key - The pressed key
+ * @returns {ShortcutAction | undefined} The action, if any
+ */
+export const findShortcut = (bindings: ShortcutBindings, key: string): ShortcutAction | undefined =>
+  (Object.keys(bindings) as ShortcutAction[]).find(action => bindings[action] === key);
+
+/**
+ * Binds a key to an action. If another action already uses the key, the two swap keys.
+ * @param bindings - The current bindings
+ * @param action - The action to rebind
+ * @param key - The new key
+ * @returns {ShortcutBindings} The updated bindings
+ */
+export const rebindShortcut = (
+  bindings: ShortcutBindings,
+  action: ShortcutAction,
+  key: string
+): ShortcutBindings => {
+  const conflict = findShortcut(bindings, key);
+  return {
+    ...bindings,
+    ...(conflict && conflict !== action ? { [conflict]: bindings[action] } : {}),
+    [action]: key
+  };
+};
+
+/**
+ * Returns whether a key press belongs to the focused element rather than the shortcuts:
+ * typing in a field, or Space and Enter on a button or link
+ * @param target - The event target
+ * @param key - The pressed key
+ */
+export const isOwnKeyTarget = (target: EventTarget | null, key: string): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return true;
+  return (key === 'Space' || key === 'Enter') && ['BUTTON', 'A', 'SUMMARY'].includes(target.tagName);
+};
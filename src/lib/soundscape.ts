@@ -0,0 +1,256 @@
+/**
+ * Procedural ambient soundscapes, synthesized with the Web Audio API.
+ * Each soundscape is a noise or drone source sent through a filter. The filter cutoff
+ * and the volume rise and fall with the lung fill level that scales the breathing
+ * sphere, so the sound opens up on the inhale and settles on the exhale.
+ */
+import { createDefaultContext } from './audioCues';
+
+/**
+ * Identifiers of the available soundscapes
+ */
+export type SoundscapeId = 'ocean' | 'wind' | 'brown-noise' | 'drone';
+
+/**
+ * Sound of a soundscape
+ * - source: Noise color, or a drone of oscillators at the given frequencies
+ * - filter: Filter type shaping the source
+ * - cutoff: Filter cutoff in Hz at an empty and a full breath, at the darkest texture
+ * - q: Filter resonance
+ * - gain: Loudness relative to the other soundscapes
+ */
+interface Soundscape {
+  name: string;
+  source: { type: 'noise'; color: 'white' | 'pink' | 'brown' } | { type: 'drone'; frequencies: number[] };
+  filter: BiquadFilterType;
+  cutoff: [number, number];
+  q: number;
+  gain: number;
+}
+
+/**
+ * Available soundscapes
+ */
+export const SOUNDSCAPES: Record<SoundscapeId, Soundscape> = {
+  ocean: {
+    name: 'Ocean',
+    source: { type: 'noise', color: 'pink' },
+    filter: 'lowpass',
+    cutoff: [250, 1400],
+    q: 0.7,
+    gain: 0.8
+  },
+  wind: {
+    name: 'Wind',
+    source: { type: 'noise', color: 'white' },
+    filter: 'bandpass',
+    cutoff: [350, 1200],
+    q: 2,
+    gain: 1
+  },
+  'brown-noise': {
+    name: 'Brown noise',
+    source: { type: 'noise', color: 'brown' },
+    filter: 'lowpass',
+    cutoff: [200, 700],
+    q: 0.5,
+    gain: 1
+  },
+  drone: {
+    name: 'Drone',
+    source: { type: 'drone', frequencies: [55, 82.5, 110, 165] },
+    filter: 'lowpass',
+    cutoff: [180, 900],
+    q: 4,
+    gain: 0.5
+  }
+};
+
+/**
+ * Default soundscape for each built-in theme, by theme name
+ */
+const THEME_SOUNDSCAPES: Record<string, SoundscapeId> = {
+  Ocean: 'ocean',
+  Forest: 'wind',
+  Lavender: 'drone',
+  Sunset: 'brown-noise',
+  Twilight: 'drone',
+  Lagoon: 'ocean'
+};
+
+/**
+ * Soundscape played for themes without a default of their own
+ */
+const FALLBACK_SOUNDSCAPE: SoundscapeId = 'brown-noise';
+
+/**
+ * Returns the default soundscape for a theme
+ * @param themeName - Name of the theme, if known
+ * @returns {SoundscapeId} The theme's soundscape, or brown noise
+ */
+export const getThemeSoundscape = (themeName?: string): SoundscapeId =>
+  (themeName && THEME_SOUNDSCAPES[themeName]) || FALLBACK_SOUNDSCAPE;
+
+/**
+ * Ambient soundscape preferences
+ * - soundscape: A fixed soundscape, or 'theme' to follow the pattern's theme
+ * - volume: Overall volume (0-1)
+ * - texture: From dark and muffled (0) to bright and airy (1)
+ */
+export interface SoundscapeSettings {
+  enabled: boolean;
+  soundscape: SoundscapeId | 'theme';
+  volume: number;
+  texture: number;
+}
+
+export const DEFAULT_SOUNDSCAPE_SETTINGS: SoundscapeSettings = {
+  enabled: false,
+  soundscape: 'theme',
+  volume: 0.5,
+  texture: 0.5
+};
+
+/**
+ * Mixing settings shared by all soundscapes
+ * - restLevel: Share of the volume kept at an empty breath
+ * - brightness: Largest cutoff multiplier, reached at the brightest texture
+ */
+const MIX = {
+  maxGain: 0.25,
+  restLevel: 0.4,
+  brightness: 3,
+  noiseLength: 4,
+  smoothing: 0.1,
+  fade: 0.5
+} as const;
+
+/**
+ * Public interface of the soundscape player
+ */
+export interface SoundscapePlayer {
+  setLevel: (id: SoundscapeId, level: number, settings: SoundscapeSettings) => void;
+  stop: () => void;
+}
+
+/**
+ * Fills a looping buffer with noise of the given color
+ */
+const createNoiseBuffer = (ctx: AudioContext, color: 'white' | 'pink' | 'brown') => {
+  const buffer = ctx.createBuffer(1, ctx.sampleRate * MIX.noiseLength, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  // Running filter state for the pink and brown noise approximations
+  let b0 = 0, b1 = 0, b2 = 0, last = 0;
+
+  for (let i = 0; i < data.length; i++) {
+    const white = Math.random() * 2 - 1;
+    if (color === 'white') {
+      data[i] = white * 0.5;
+    } else if (color === 'pink') {
+      b0 = 0.99765 * b0 + white * 0.099046;
+      b1 = 0.963 * b1 + white * 0.2965164;
+      b2 = 0.57 * b2 + white * 1.0526913;
+      data[i] = (b0 + b1 + b2 + white * 0.1848) * 0.11;
+    } else {
+      last = (last + 0.02 * white) / 1.02;
+      data[i] = last * 3.5;
+    }
+  }
+  return buffer;
+};
+
+/**
+ * Creates a soundscape player
+ * The audio context is created on first use, after the user has interacted with the page.
+ *
+ * @param createContext - Creates the audio context; replaceable for testing
+ * @returns {SoundscapePlayer} A new player
+ */
+export const createSoundscapePlayer = (
+  createContext: () => AudioContext | null = createDefaultContext
+): SoundscapePlayer => {
+  let context: AudioContext | null = null;
+  let active: { id: SoundscapeId; sources: AudioScheduledSourceNode[]; filter: BiquadFilterNode; gain: GainNode } | null = null;
+
+  const getContext = () => {
+    context ??= createContext();
+    if (context?.state === 'suspended') void context.resume();
+    return context;
+  };
+
+  /**
+   * Starts the sources of a soundscape, silent until the first level is set
+   */
+  const start = (ctx: AudioContext, id: SoundscapeId) => {
+    const soundscape = SOUNDSCAPES[id];
+    const gain = ctx.createGain();
+    gain.gain.value = 0;
+    const filter = ctx.createBiquadFilter();
+    filter.type = soundscape.filter;
+    filter.Q.value = soundscape.q;
+    filter.connect(gain).connect(ctx.destination);
+
+    let sources: AudioScheduledSourceNode[];
+    if (soundscape.source.type === 'noise') {
+      const noise = ctx.createBufferSource();
+      noise.buffer = createNoiseBuffer(ctx, soundscape.source.color);
+      noise.loop = true;
+      sources = [noise];
+    } else {
+      sources = soundscape.source.frequencies.map(frequency => {
+        const oscillator = ctx.createOscillator();
+        oscillator.type = 'sawtooth';
+        oscillator.frequency.value = frequency;
+        return oscillator;
+      });
+    }
+    sources.forEach(source => {
+      source.connect(filter);
+      source.start();
+    });
+    return { id, sources, filter, gain };
+  };
+
+  /**
+   * Follows the breath: moves the cutoff and volume to the values for a fill level,
+   * switching soundscapes if needed
+   * @param id - Soundscape to play
+   * @param level - Lung fill level (0-1)
+   * @param settings - The soundscape settings
+   */
+  const setLevel = (id: SoundscapeId, level: number, settings: SoundscapeSettings) => {
+    const ctx = getContext();
+    if (!ctx) return;
+
+    if (active?.id !== id) {
+      stop();
+      active = start(ctx, id);
+    }
+
+    const soundscape = SOUNDSCAPES[id];
+    const [low, high] = soundscape.cutoff;
+    const brightness = 1 + (MIX.brightness - 1) * settings.texture;
+    const volume = settings.volume * soundscape.gain * MIX.maxGain * (MIX.restLevel + (1 - MIX.restLevel) * level);
+    active.filter.frequency.setTargetAtTime((low + (high - low) * level) * brightness, ctx.currentTime, MIX.smoothing);
+    active.gain.gain.setTargetAtTime(volume, ctx.currentTime, MIX.smoothing);
+  };
+
+  /**
+   * Fades out and stops the current soundscape
+   */
+  const stop = () => {
+    const ctx = context;
+    if (!active || !ctx) return;
+    const { sources, gain } = active;
+    gain.gain.setTargetAtTime(0, ctx.currentTime, MIX.fade / 5);
+    sources.forEach(source => source.stop(ctx.currentTime + MIX.fade));
+    active = null;
+  };
+
+  return { setLevel, stop };
+};
+
+/**
+ * Shared soundscape player used by the app
+ */
+export const soundscapePlayer = createSoundscapePlayer();
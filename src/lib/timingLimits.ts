@@ -0,0 +1,139 @@
+/**
+ * Limits and warnings for custom pattern timings.
+ * The upper limits are configurable so that long exhales for sleep work and
+ * extended breath retention can be entered; values beyond the comfortable
+ * range are allowed but come with a warning.
+ * The chosen limits are stored in localStorage under `breathing-timing-limits`;
+ * a stored limit that is missing or out of range is replaced by its default.
+ */
+import { isRecord, roundDuration } from './breathingPhases';
+
+/**
+ * Upper limits for custom timings in seconds
+ * - breath: Longest inhale or exhale
+ * - hold: Longest hold after the inhale or after the exhale
+ */
+export interface TimingLimits {
+  breath: number;
+  hold: number;
+}
+
+/**
+ * Limits used until the user changes them
+ */
+export const DEFAULT_TIMING_LIMITS: TimingLimits = {
+  breath: 10,
+  hold: 10
+};
+
+/**
+ * Highest values the limits themselves can be raised to
+ */
+export const MAX_TIMING_LIMITS: TimingLimits = {
+  breath: 30,
+  hold: 60
+};
+
+/**
+ * Shortest inhale or exhale in seconds
+ */
+export const MIN_BREATH_DURATION = 0.5;
+
+/**
+ * Longest timings considered comfortable for most people
+ */
+const COMFORTABLE_LIMITS: TimingLimits = {
+  breath: 12,
+  hold: 15
+};
+
+/**
+ * Range for the breaths per minute generator
+ */
+export const BREATHS_PER_MINUTE_LIMITS = {
+  min: 1,
+  max: 30
+} as const;
+
+const STORAGE_KEY = 'breathing-timing-limits';
+
+/**
+ * Gets a stored limit if it is a number between its default and its maximum
+ */
+const getStoredLimit = (stored: Record<string, unknown>, key: keyof TimingLimits): number => {
+  const limit = stored[key];
+  return typeof limit === 'number' && limit >= DEFAULT_TIMING_LIMITS[key] && limit <= MAX_TIMING_LIMITS[key]
+    ? limit
+    : DEFAULT_TIMING_LIMITS[key];
+};
+
+/**
+ * Loads the user's timing limits
+ * @returns {TimingLimits} The saved limits, or the defaults for any that can't be read
+ */
+export const loadTimingLimits = (): TimingLimits => {
+  const storedLimits = localStorage.getItem(STORAGE_KEY);
+  if (!storedLimits) return DEFAULT_TIMING_LIMITS;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(storedLimits);
+  } catch {
+    return DEFAULT_TIMING_LIMITS;
+  }
+  if (!isRecord(parsed)) return DEFAULT_TIMING_LIMITS;
+  return { breath: getStoredLimit(parsed, 'breath'), hold: getStoredLimit(parsed, 'hold') };
+};
+
+/**
+ * Saves the user's timing limits
+ * @param limits - The limits to save
+ */
+export const saveTimingLimits = (limits: TimingLimits) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(limits));
+};
+
+/**
+ * Clamps a timing to its allowed range and rounds it to 0.1s
+ * @param seconds - The entered duration
+ * @param isHold - Whether the timing is a hold
+ * @param limits - The user's timing limits
+ * @returns {number} The duration to use
+ */
+export const clampTiming = (seconds: number, isHold: boolean, limits: TimingLimits): number => {
+  const min = isHold ? 0 : MIN_BREATH_DURATION;
+  const max = isHold ? limits.hold : limits.breath;
+  return roundDuration(Math.max(min, Math.min(max, seconds)));
+};
+
+/**
+ * Gets warnings for timings that will be clamped or are longer than is comfortable
+ * @param timings - The entered timings with a display label and whether each is a hold
+ * @param limits - The user's timing limits
+ * @returns {string[]} The warnings to show, if any
+ */
+export const getTimingWarnings = (
+  timings: { label: string; seconds: number; isHold: boolean }[],
+  limits: TimingLimits
+): string[] =>
+  timings.flatMap(({ label, seconds, isHold }) => {
+    const limit = isHold ? limits.hold : limits.breath;
+    if (seconds > limit) {
+      return [`${label} is above the ${limit}s limit and will be set to ${limit}s`];
+    }
+    if (seconds > (isHold ? COMFORTABLE_LIMITS.hold : COMFORTABLE_LIMITS.breath)) {
+      return isHold
+        ? [`${label} of ${seconds}s is long; stop if you feel light-headed`]
+        : [`${label} of ${seconds}s is long; keep it relaxed and unforced`];
+    }
+    return [];
+  });
+
+/**
+ * Builds a balanced pattern (equal inhale and exhale, no holds) for a breathing rate
+ * @param breathsPerMinute - The breathing rate, e.g. 5.5 for coherent breathing
+ * @returns {{ inhale: number; exhale: number }} The inhale and exhale durations, rounded to 0.1s
+ */
+export const getBalancedTimings = (breathsPerMinute: number): { inhale: number; exhale: number } => {
+  const half = roundDuration(60 / breathsPerMinute / 2);
+  return { inhale: half, exhale: half };
+};
@@ -0,0 +1,201 @@
+/**
+ * Spoken voice guidance for breathing sessions.
+ * The coach says "breathe in", "hold" and "breathe out" at phase boundaries and can
+ * count the seconds of each phase down, the way `CountdownTimer` does visually.
+ * Speech goes through a replaceable output; the default one uses the browser's
+ * `speechSynthesis`, and tests can pass their own.
+ */
+import type { PhaseType } from './breathingPhases';
+import type { SessionProgress } from './sessionEngine';
+
+/**
+ * A voice offered by the speech output
+ */
+export interface SpeechVoice {
+  voiceURI: string;
+  name: string;
+  lang: string;
+}
+
+/**
+ * How an utterance is spoken
+ */
+export interface SpeechOptions {
+  voiceURI: string | null;
+  rate: number;
+  volume: number;
+}
+
+/**
+ * A speech engine the coach can talk through
+ * - speak: Says the text, interrupting anything still being said
+ * - onVoicesChanged: Calls the listener with the voices now and whenever they change
+ */
+export interface SpeechOutput {
+  isSupported: boolean;
+  speak: (text: string, options: SpeechOptions) => void;
+  cancel: () => void;
+  getVoices: () => SpeechVoice[];
+  onVoicesChanged: (listener: (voices: SpeechVoice[]) => void) => () => void;
+}
+
+/**
+ * What the coach says
+ * - cues: Phase names at each boundary
+ * - cues-and-count: Phase names, then the seconds left in each phase
+ * - count: Only the seconds left in each phase
+ */
+export type VoiceMode = 'cues' | 'cues-and-count' | 'count';
+
+/**
+ * Labels for the voice modes
+ */
+export const VOICE_MODES: Record<VoiceMode, string> = {
+  cues: 'Phase names',
+  'cues-and-count': 'Phase names and count',
+  count: 'Count only'
+};
+
+/**
+ * Limits for the voice rate and the guided cycles
+ */
+export const VOICE_LIMITS = {
+  minRate: 0.5,
+  maxRate: 1.5,
+  defaultCycles: 5,
+  maxCycles: 100
+} as const;
+
+/**
+ * Voice guidance preferences
+ * - voiceURI: Chosen voice, or null for the browser default
+ * - firstCycles: Only guide this many cycles, or null for the whole session
+ * - speakInitialCountdown: Also count down the 3-2-1 before a session
+ */
+export interface VoiceSettings {
+  enabled: boolean;
+  voiceURI: string | null;
+  rate: number;
+  volume: number;
+  mode: VoiceMode;
+  firstCycles: number | null;
+  speakInitialCountdown: boolean;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  enabled: false,
+  voiceURI: null,
+  rate: 1,
+  volume: 1,
+  mode: 'cues',
+  firstCycles: null,
+  speakInitialCountdown: false
+};
+
+/**
+ * Phrases spoken at the start of each phase type
+ */
+const PHASE_PHRASES: Record<PhaseType, string> = {
+  inhale: 'Breathe in',
+  'hold-full': 'Hold',
+  exhale: 'Breathe out',
+  'hold-empty': 'Hold',
+};
+
+/**
+ * Speech output backed by the browser's speechSynthesis
+ * Does nothing where speech synthesis is unavailable.
+ */
+export const browserSpeech: SpeechOutput = (() => {
+  const synth = typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis : null;
+
+  const getVoices = (): SpeechVoice[] =>
+    (synth?.getVoices() ?? []).map(({ voiceURI, name, lang }) => ({ voiceURI, name, lang }));
+
+  return {
+    isSupported: synth !== null,
+    speak: (text, { voiceURI, rate, volume }) => {
+      if (!synth) return;
+      synth.cancel();
+      const utterance = new SpeechSynthesisUtterance(text);
+      const voice = synth.getVoices().find(v => v.voiceURI === voiceURI);
+      if (voice) utterance.voice = voice;
+      utterance.rate = rate;
+      utterance.volume = volume;
+      synth.speak(utterance);
+    },
+    cancel: () => synth?.cancel(),
+    getVoices,
+    onVoicesChanged: (listener) => {
+      listener(getVoices());
+      if (!synth) return () => {};
+      // Voices load asynchronously in most browsers
+      const handleChange = () => listener(getVoices());
+      synth.addEventListener('voiceschanged', handleChange);
+      return () => synth.removeEventListener('voiceschanged', handleChange);
+    },
+  };
+})();
+
+/**
+ * Public interface of a voice coach
+ */
+export interface VoiceCoach {
+  announcePhase: (progress: SessionProgress, settings: VoiceSettings) => void;
+  updateCount: (progress: SessionProgress, settings: VoiceSettings) => void;
+  sayCount: (count: number, settings: VoiceSettings) => void;
+  stop: () => void;
+}
+
+/**
+ * Creates a voice coach
+ * @param output - The speech output to talk through
+ * @returns {VoiceCoach} A new coach
+ */
+export const createVoiceCoach = (output: SpeechOutput): VoiceCoach => {
+  // Whole seconds left in the phase when the coach last spoke
+  let lastCount: number | null = null;
+
+  const say = (text: string, { voiceURI, rate, volume }: VoiceSettings) =>
+    output.speak(text, { voiceURI, rate, volume });
+
+  const isGuidedCycle = (progress: SessionProgress, settings: VoiceSettings) =>
+    settings.firstCycles === null || progress.cycleIndex < settings.firstCycles;
+
+  /**
+   * Speaks the start of a phase: its name, or its length in count-only mode
+   */
+  const announcePhase = (progress: SessionProgress, settings: VoiceSettings) => {
+    lastCount = Math.ceil(progress.phaseRemaining);
+    if (!isGuidedCycle(progress, settings)) return;
+    say(settings.mode === 'count' ? String(lastCount) : PHASE_PHRASES[progress.phase.type], settings);
+  };
+
+  /**
+   * Speaks the seconds left in the phase each time a whole second passes
+   */
+  const updateCount = (progress: SessionProgress, settings: VoiceSettings) => {
+    if (settings.mode === 'cues') return;
+    const count = Math.ceil(progress.phaseRemaining);
+    if (count === lastCount || count <= 0) return;
+    lastCount = count;
+    if (isGuidedCycle(progress, settings)) say(String(count), settings);
+  };
+
+  /**
+   * Speaks a number, used for the countdown before a session
+   */
+  const sayCount = (count: number, settings: VoiceSettings) => say(String(count), settings);
+
+  const stop = () => {
+    lastCount = null;
+    output.cancel();
+  };
+
+  return { announcePhase, updateCount, sayCount, stop };
+};
+
+/**
+ * Shared voice coach used by the app
+ */
+export const voiceCoach = createVoiceCoach(browserSpeech);
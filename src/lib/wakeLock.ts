@@ -0,0 +1,113 @@
+/**
+ * Keeping a session going on a phone or in a background tab.
+ * - The Screen Wake Lock API stops the screen dimming and locking during a session
+ * - A preference decides whether hiding the tab pauses the session or lets it run on
+ * Browsers release a wake lock whenever the page is hidden, so it is requested again
+ * each time the page becomes visible while it is still wanted.
+ */
+
+/**
+ * What happens to a running session when its tab is hidden or the screen locks
+ * - pause: Pause the session until it is resumed
+ * - continue: Keep the session running on the clock
+ */
+export type HiddenTabBehavior = 'pause' | 'continue';
+
+/**
+ * Labels for the hidden tab behaviors
+ */
+export const HIDDEN_TAB_BEHAVIORS: Record<HiddenTabBehavior, string> = {
+  pause: 'Pause the session',
+  continue: 'Keep going'
+};
+
+/**
+ * Background preferences
+ * - keepAwake: Hold a screen wake lock while a session is running
+ * - whenHidden: What a running session does while its tab is hidden
+ */
+export interface BackgroundSettings {
+  keepAwake: boolean;
+  whenHidden: HiddenTabBehavior;
+}
+
+export const DEFAULT_BACKGROUND_SETTINGS: BackgroundSettings = {
+  keepAwake: true,
+  whenHidden: 'continue'
+};
+
+/**
+ * Public interface of the wake lock
+ */
+export interface ScreenWakeLock {
+  isSupported: boolean;
+  acquire: () => void;
+  release: () => void;
+}
+
+/**
+ * Returns the browser's wake lock, or null where the API is unavailable
+ */
+const getDefaultWakeLock = (): WakeLock | null =>
+  typeof navigator !== 'undefined' && 'wakeLock' in navigator ? navigator.wakeLock : null;
+
+/**
+ * Creates a screen wake lock that stays held, across visibility changes, from
+ * `acquire` until `release`
+ * Every method does nothing where the Screen Wake Lock API is missing. A refused
+ * request (low battery, or a page that is not visible) is ignored.
+ *
+ * @param wakeLock - The browser's wake lock; replaceable for testing
+ * @returns {ScreenWakeLock} A new wake lock, not yet held
+ */
+export const createScreenWakeLock = (
+  wakeLock: WakeLock | null = getDefaultWakeLock()
+): ScreenWakeLock => {
+  let isWanted = false;
+  let sentinel: WakeLockSentinel | null = null;
+
+  const request = () => {
+    if (!wakeLock || sentinel || document.visibilityState !== 'visible') return;
+    wakeLock.request('screen').then(
+      lock => {
+        // The lock may have been released while the request was pending
+        if (isWanted && !sentinel) {
+          sentinel = lock;
+          lock.addEventListener('release', () => {
+            if (sentinel === lock) sentinel = null;
+          });
+        } else {
+          void lock.release();
+        }
+      },
+      () => {}
+    );
+  };
+
+  const handleVisibilityChange = () => {
+    if (isWanted) request();
+  };
+
+  const acquire = () => {
+    if (!wakeLock || isWanted) return;
+    isWanted = true;
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    request();
+  };
+
+  const release = () => {
+    if (!isWanted) return;
+    isWanted = false;
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    const lock = sentinel;
+    sentinel = null;
+    void lock?.release();
+  };
+
+  return { isSupported: wakeLock !== null, acquire, release };
+};
+
+/**
+ * Shared screen wake lock used by the app
+ */
+export const screenWakeLock = createScreenWakeLock();
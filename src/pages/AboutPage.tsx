@@ -1,6 +1,8 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useBreathingStore } from '../store/breathingStore';
+import { formatProgression } from '../lib/breathingPhases';
+import { BREATHING_PATTERNS } from '../lib/breathingPatterns';
 
 const ABOUT_STYLES = {
   container: "min-h-screen relative overflow-y-auto",
@@ -29,49 +31,6 @@ const ABOUT_STYLES = {
   patternContent: "space-y-1.5 md:space-y-2"
 } as const;
 
-const BREATHING_PATTERNS = [
-  {
-    name: 'Calm',
-    inhale: 4,
-    hold: 4,
-    exhale: 6,
-    color: '#3b82f6', // Blue
-    description: 'Perfect for relaxation and stress relief',
-    science: 'The 4-4-6 pattern activates the parasympathetic nervous system, reducing heart rate and blood pressure. The longer exhale (6 seconds) helps release tension and promotes relaxation.',
-    colorPsychology: 'Blue is associated with calmness, peace, and tranquility. It has been shown to lower blood pressure and heart rate, making it perfect for relaxation exercises.'
-  },
-  {
-    name: 'Focus',
-    inhale: 4,
-    hold: 7,
-    exhale: 8,
-    color: '#10b981', // Green
-    description: 'Enhances concentration and mental clarity',
-    science: 'The extended hold (7 seconds) increases oxygen levels in the brain, while the longer exhale (8 seconds) helps clear CO2. This pattern improves focus by optimizing brain oxygenation.',
-    colorPsychology: 'Green represents growth, harmony, and balance. It\'s known to improve focus and concentration while reducing eye strain, making it ideal for mental clarity exercises.'
-  },
-  {
-    name: 'Balance',
-    inhale: 4,
-    hold: 4,
-    exhale: 4,
-    color: '#8b5cf6', // Purple
-    description: 'Promotes emotional balance and stability',
-    science: 'The equal 4-4-4 ratio creates a balanced breathing rhythm that helps regulate the autonomic nervous system. This pattern is particularly effective for emotional regulation.',
-    colorPsychology: 'Purple combines the calm of blue and the energy of red. It\'s associated with wisdom, creativity, and emotional balance, making it perfect for equilibrium exercises.'
-  },
-  {
-    name: 'Deep',
-    inhale: 6,
-    hold: 2,
-    exhale: 7,
-    color: '#f59e0b', // Amber
-    description: 'Deep breathing for energy and vitality',
-    science: 'The longer inhale (6 seconds) maximizes oxygen intake, while the shorter hold (2 seconds) maintains energy levels. The extended exhale (7 seconds) helps release tension.',
-    colorPsychology: 'Amber represents energy, warmth, and vitality. It\'s associated with increased energy levels and motivation, making it ideal for energizing breathing exercises.'
-  }
-];
-
 export const AboutPage: React.FC = () => {
   const navigate = useNavigate();
   const { theme } = useBreathingStore();
@@ -113,7 +72,7 @@ export const AboutPage: React.FC = () => {
           <div className={ABOUT_STYLES.patternGrid}>
             {BREATHING_PATTERNS.map((pattern) => (
               <div 
-                key={pattern.name}
+                key={pattern.id}
                 className={ABOUT_STYLES.patternCard}
                 style={{ 
                   background: `${theme.primary}20`,
@@ -125,14 +84,14 @@ export const AboutPage: React.FC = () => {
                   <div className="flex items-center">
                     <div 
                       className={ABOUT_STYLES.colorBox}
-                      style={{ background: pattern.color }}
+                      style={{ background: pattern.theme.primary }}
                     />
                     <h3 className={ABOUT_STYLES.patternName} style={{ color: theme.primary }}>
                       {pattern.name}
                     </h3>
                   </div>
                   <div className={ABOUT_STYLES.patternStats} style={{ color: theme.primary }}>
-                    {pattern.inhale}-{pattern.hold}-{pattern.exhale}
+                    {formatProgression(pattern.phases, pattern.progression)}
                   </div>
                 </div>
                 <div className={ABOUT_STYLES.patternContent}>
@@ -199,10 +158,11 @@ export const AboutPage: React.FC = () => {
               </p>
               <div className="mt-1.5">
                 <ul className="list-disc list-inside text-xs md:text-sm leading-relaxed" style={{ color: theme.primary }}>
-                  <li>Blue (Calm): Reduces stress</li>
-                  <li>Green (Focus): Enhances concentration</li>
-                  <li>Purple (Balance): Promotes stability</li>
-                  <li>Amber (Deep): Increases energy</li>
+                  {BREATHING_PATTERNS.map((pattern) => (
+                    <li key={pattern.id}>
+                      {pattern.theme.name} ({pattern.name}): {pattern.description}
+                    </li>
+                  ))}
                 </ul>
               </div>
             </div>
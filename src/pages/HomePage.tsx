@@ -2,42 +2,38 @@
  * HomePage component that renders the breathing exercise interface.
  * This component sets up the 3D scene with Three.js and manages the overall layout.
  * It includes the breathing sphere visualization, controls, and navigation elements.
+ * The display mode shows the sphere, a large per-phase countdown, or both.
+ * When reduced motion is preferred, a 2D ring replaces the 3D scene.
+ * Keyboard shortcuts cover the main actions; "?" lists them.
  */
-import React, { useState, useEffect } from 'react';
-import { Canvas } from '@react-three/fiber';
-import { OrbitControls, Stars } from '@react-three/drei';
-import { BreathingSphere } from '../components/BreathingSphere';
+import React, { useState, useEffect, useSyncExternalStore } from 'react';
+import { BreathingCanvas } from '../components/BreathingCanvas';
+import { BreathingRing } from '../components/BreathingRing';
+import { CountdownTimer } from '../components/CountdownTimer';
 import { Controls } from '../components/Controls';
 import { StartButton } from '../components/StartButton';
 import { BreathingTimer } from '../components/BreathingTimer';
 import { useBreathingStore } from '../store/breathingStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { getSystemReducedMotion, shouldReduceMotion, subscribeToReducedMotion } from '../lib/accessibility';
 import { useNavigate } from 'react-router-dom';
 import { CustomBreathing } from '../components/CustomBreathing';
-
-/**
- * Scene configuration for the 3D environment
- * Defines camera settings, fog parameters, and star field properties
- * for the Three.js scene
- */
-const SCENE_CONFIG = {
-  camera: {
-    position: [0, 0, 5] as [number, number, number],
-    fov: 75
-  },
-  fog: {
-    near: 5,
-    far: 20
-  },
-  stars: {
-    radius: 100,
-    depth: 50,
-    count: 5000,
-    factor: 4,
-    saturation: 0,
-    fade: true,
-    speed: 1
-  }
-} as const;
+import { SessionGoal } from '../components/SessionGoal';
+import { RoutineBuilder } from '../components/RoutineBuilder';
+import { RoutineProgress } from '../components/RoutineProgress';
+import { AudioCues } from '../components/AudioCues';
+import { VoiceGuide } from '../components/VoiceGuide';
+import { HapticGuide } from '../components/HapticGuide';
+import { AmbientSoundscape } from '../components/AmbientSoundscape';
+import { SessionAnnouncer } from '../components/SessionAnnouncer';
+import { SessionKeeper } from '../components/SessionKeeper';
+import { InitialCountdown } from '../components/InitialCountdown';
+import { CoolDown, SettleIn } from '../components/SessionStages';
+import { CheckIn } from '../components/CheckIn';
+import { ShortcutsOverlay } from '../components/ShortcutsOverlay';
+import { BREATHING_PATTERNS } from '../lib/breathingPatterns';
+import { showsCountdown, showsSphere } from '../lib/display';
+import { CLOSE_KEY, findShortcut, getEventKey, isOwnKeyTarget, PATTERN_KEYS } from '../lib/shortcuts';
 
 /**
  * Button style configurations for different UI elements
@@ -67,6 +63,12 @@ const BUTTON_STYLES = {
     border: `1px solid ${theme}40`,
     boxShadow: `0 4px 14px ${theme}40`,
     color: theme
+  }),
+  settings: (theme: string) => ({
+    background: `${theme}40`,
+    border: `1px solid ${theme}40`,
+    boxShadow: `0 4px 14px ${theme}40`,
+    color: theme
   })
 } as const;
 
@@ -79,9 +81,10 @@ const HELP_INSTRUCTIONS = [
     title: "Getting Started",
     items: [
       "Choose a breathing pattern from the left panel",
-      "Set your desired session duration",
+      "Set your desired session duration, or leave it open-ended",
+      "Chain several patterns into a routine from the Routine panel",
       "Click 'Start' to begin your session",
-      "Create your own custom breathing pattern with personalized timings"
+      "Save your own custom patterns with a name, description, theme and timings"
     ]
   },
   {
@@ -91,30 +94,85 @@ const HELP_INSTRUCTIONS = [
       "Breathe in when the sphere expands",
       "Hold when the sphere is at its largest",
       "Breathe out when the sphere contracts",
+      "Timed sessions finish and save at the end of the current breath",
+      "Routines switch pattern and theme at the end of each segment",
       "Stay focused on your breath and the visual guide"
     ]
   },
+  {
+    title: "Settings",
+    items: [
+      "General: the app opens with your last pattern; pick a fixed one, or one theme for every pattern",
+      "Display: show a large countdown for each phase, with or without the sphere",
+      "Session: set the countdown length, a settle-in before the pattern and a cool-down after it; neither counts towards your session time",
+      "Session: turn on check-ins to note your stress and mood before and after each session",
+      "Session: the screen stays on during a session; choose whether switching away pauses it or lets it keep time",
+      "Sound and Voice coach: turn on sound cues or spoken guidance to breathe with your eyes closed",
+      "Soundscape: add ambient sound that swells and settles with each breath",
+      "Vibration: on a phone, turn it on and place the phone face-down to breathe by touch",
+      "Accessibility: prefer less motion? Choose the 2D ring; screen readers announce each phase"
+    ]
+  },
   {
     title: "Tracking Progress",
     items: [
       "View your session history in the Stats page",
       "Track total sessions and duration",
+      "See which patterns lower your stress the most, from your check-ins",
       "Monitor your longest and average sessions",
       "See your recent breathing exercises"
     ]
+  },
+  {
+    title: "Keyboard",
+    items: [
+      "Space starts or stops a session and P pauses it",
+      "Keys 1-9 choose a pattern from the list",
+      "F toggles fullscreen, H opens help, S opens stats and Esc closes popups",
+      "Press ? to see every shortcut; change them in Settings"
+    ]
   }
 ] as const;
 
+/**
+ * Toggles the application between fullscreen and normal windowed mode
+ */
+const toggleFullscreen = () => {
+  if (!document.fullscreenElement) {
+    document.documentElement.requestFullscreen().catch((err) => {
+      console.error(`Error attempting to enable full-screen mode: ${err.message} (${err.name})`);
+    });
+  } else {
+    if (document.exitFullscreen) {
+      document.exitFullscreen();
+    }
+  }
+};
+
 /**
  * HomePage component that renders the main breathing exercise interface
  * @returns {JSX.Element} The rendered application
  */
 const HomePage: React.FC = () => {
-  const { theme, isBreathing } = useBreathingStore();
+  const {
+    theme,
+    isBreathing,
+    isCountingDown,
+    isSettlingIn,
+    isCoolingDown,
+    checkInStage,
+    saveError,
+    dismissSaveError
+  } = useBreathingStore();
   const navigate = useNavigate();
-  const [isCountdownVisible, setIsCountdownVisible] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const motion = useSettingsStore(state => state.accessibility.motion);
+  const shortcuts = useSettingsStore(state => state.shortcuts);
+  const display = useSettingsStore(state => state.display);
+  const systemReducedMotion = useSyncExternalStore(subscribeToReducedMotion, getSystemReducedMotion);
+  const reduceMotion = shouldReduceMotion(motion, systemReducedMotion);
 
   useEffect(() => {
     const handleFullscreenChange = () => {
@@ -125,24 +183,77 @@ const HomePage: React.FC = () => {
   }, []);
 
   /**
-   * Toggles the application between fullscreen and normal windowed mode
+   * Effect to handle the keyboard shortcuts
+   * Each shortcut is blocked whenever its on-screen control is: the menu buttons
+   * and pattern list during a session or countdown, and everything but Esc while a popup is open.
    */
-  const toggleFullscreen = () => {
-    if (!document.fullscreenElement) {
-      document.documentElement.requestFullscreen().catch((err) => {
-        console.error(`Error attempting to enable full-screen mode: ${err.message} (${err.name})`);
-      });
-    } else {
-      if (document.exitFullscreen) {
-        document.exitFullscreen();
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = getEventKey(e);
+      if (e.ctrlKey || e.metaKey || e.altKey || isOwnKeyTarget(e.target, key)) return;
+
+      const state = useBreathingStore.getState();
+      const isSessionActive = state.isBreathing || state.isCountingDown || state.isSettlingIn;
+
+      if (key === CLOSE_KEY) {
+        setShowHelp(false);
+        setShowShortcuts(false);
+        state.cancelCountdown();
+        if (state.checkInStage === 'after') state.submitAfterCheckIn(null);
+        return;
       }
-    }
-  };
+      if (showHelp || showShortcuts || state.checkInStage) return;
 
-  // Determine if buttons should be disabled
-  const isButtonsDisabled = isCountdownVisible || isBreathing;
+      const patternIndex = PATTERN_KEYS.indexOf(key as typeof PATTERN_KEYS[number]);
+      if (patternIndex !== -1) {
+        const pattern = [...BREATHING_PATTERNS, ...state.customPatterns][patternIndex];
+        if (pattern && !isSessionActive) state.selectPattern(pattern);
+        return;
+      }
 
-  // Get current phase text
+      switch (findShortcut(shortcuts, key)) {
+        case 'startStop':
+          if (state.isBreathing) {
+            state.finishBreathing();
+          } else {
+            state.beginCountdown();
+          }
+          break;
+        case 'pause':
+          if (!state.isBreathing) return;
+          if (state.isPaused) {
+            state.resumeBreathing();
+          } else {
+            state.pauseBreathing();
+          }
+          break;
+        case 'fullscreen':
+          if (isSessionActive) return;
+          toggleFullscreen();
+          break;
+        case 'help':
+          if (isSessionActive) return;
+          setShowHelp(true);
+          break;
+        case 'stats':
+          if (isSessionActive) return;
+          navigate('/stats');
+          break;
+        case 'shortcuts':
+          setShowShortcuts(true);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [navigate, shortcuts, showHelp, showShortcuts]);
+
+  // Determine if buttons should be disabled
+  const isButtonsDisabled = isCountingDown || isSettlingIn || isBreathing || checkInStage !== null;
 
 
   return (
@@ -150,21 +261,9 @@ const HomePage: React.FC = () => {
       className="w-screen h-screen relative overflow-hidden"
       style={{ background: theme.background }}
     >
-      <Canvas
-        camera={SCENE_CONFIG.camera}
-        className="absolute inset-0"
-      >
-        <color attach="background" args={[theme.background]} />
-        <fog
-          attach="fog"
-          args={[theme.background, SCENE_CONFIG.fog.near, SCENE_CONFIG.fog.far]}
-        />
-        <ambientLight intensity={0.5} />
-        <pointLight position={[10, 10, 10]} intensity={1} />
-        <Stars {...SCENE_CONFIG.stars} />
-        <BreathingSphere />
-        <OrbitControls enableZoom={false} enablePan={false} />
-      </Canvas>
+      {/* Breathing guide */}
+      {showsSphere(display.mode) && (reduceMotion ? <BreathingRing /> : <BreathingCanvas />)}
+      {showsCountdown(display.mode) && <CountdownTimer />}
 
       {/* Mobile Layout */}
       <div className="md:hidden flex flex-col items-center">
@@ -175,10 +274,7 @@ const HomePage: React.FC = () => {
           </div>
           <div className="relative right-0 scale-80 flex items-center gap-2">
 
-            <StartButton
-              onCountdownStart={() => setIsCountdownVisible(true)}
-              onCountdownEnd={() => setIsCountdownVisible(false)}
-            />
+            <StartButton />
           </div>
         </div>
 
@@ -189,8 +285,14 @@ const HomePage: React.FC = () => {
           </div>
         )}
 
-        {/* Custom Breathing - Centered above menu */}
-        <div className="absolute bottom-24 w-screen left-0 right-0 flex justify-center">
+        {/* Routine, Session Goal and Custom Breathing - Centered above menu */}
+        <div className="absolute bottom-24 w-screen left-0 right-0 flex flex-col items-center gap-2">
+          <div className="w-[90%] max-w-[300px] flex justify-center">
+            <RoutineBuilder />
+          </div>
+          <div className="w-[90%] max-w-[300px] flex justify-center">
+            <SessionGoal />
+          </div>
           <div className="w-[90%] max-w-[300px] flex justify-center">
             <CustomBreathing />
           </div>
@@ -222,6 +324,18 @@ const HomePage: React.FC = () => {
           >
             {isFullscreen ? 'Exit Fullscreen' : 'Fullscreen'}
           </button>
+          <button
+            onClick={() => navigate('/settings')}
+            className={`${BUTTON_STYLES.base} text-sm px-3 py-1.5`}
+            style={{
+              ...BUTTON_STYLES.settings(theme.primary),
+              filter: isButtonsDisabled ? 'blur(8px)' : 'none',
+              pointerEvents: isButtonsDisabled ? 'none' : 'auto',
+              opacity: isButtonsDisabled ? 0.5 : 1
+            }}
+          >
+            Settings
+          </button>
           <button
             onClick={() => navigate('/stats')}
             className={`${BUTTON_STYLES.base} text-sm px-3 py-1.5`}
@@ -252,13 +366,21 @@ const HomePage: React.FC = () => {
       {/* Desktop Layout */}
       <div className="hidden md:block">
         <Controls />
+        <RoutineBuilder />
         <CustomBreathing />
-        <StartButton
-          onCountdownStart={() => setIsCountdownVisible(true)}
-          onCountdownEnd={() => setIsCountdownVisible(false)}
-        />
+        <SessionGoal />
+        <StartButton />
         <BreathingTimer />
         <div className="absolute bottom-6 right-6 flex gap-4">
+          <button
+            onClick={() => setShowShortcuts(true)}
+            className={`${BUTTON_STYLES.base}`}
+            style={BUTTON_STYLES.help(theme.primary)}
+            aria-label="Keyboard shortcuts"
+            title="Keyboard shortcuts"
+          >
+            ?
+          </button>
           <button
             onClick={() => setShowHelp(true)}
             className={`${BUTTON_STYLES.base}`}
@@ -283,6 +405,18 @@ const HomePage: React.FC = () => {
           >
             {isFullscreen ? 'Exit Fullscreen' : 'Fullscreen'}
           </button>
+          <button
+            onClick={() => navigate('/settings')}
+            className={`${BUTTON_STYLES.base}`}
+            style={{
+              ...BUTTON_STYLES.settings(theme.primary),
+              filter: isButtonsDisabled ? 'blur(8px)' : 'none',
+              pointerEvents: isButtonsDisabled ? 'none' : 'auto',
+              opacity: isButtonsDisabled ? 0.5 : 1
+            }}
+          >
+            Settings
+          </button>
           <button
             onClick={() => navigate('/stats')}
             className={`${BUTTON_STYLES.base}`}
@@ -310,6 +444,50 @@ const HomePage: React.FC = () => {
         </div>
       </div>
 
+      {/* Routine Progress - Shared by both layouts */}
+      <RoutineProgress />
+
+      {/* Session guidance outputs */}
+      <AudioCues />
+      <VoiceGuide />
+      <HapticGuide />
+      <AmbientSoundscape />
+      <SessionAnnouncer />
+      <SessionKeeper />
+
+      {/* Stages before and after a session - Shared by both layouts */}
+      {checkInStage === 'before' && <CheckIn stage="before" />}
+      {isCountingDown && <InitialCountdown />}
+      {isSettlingIn && <SettleIn />}
+      {isCoolingDown && !isBreathing && <CoolDown />}
+      {checkInStage === 'after' && !isCoolingDown && <CheckIn stage="after" />}
+
+      {/* Save failure notice */}
+      {saveError && (
+        <div
+          role="alert"
+          className="fixed bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-3 px-4 py-2 rounded-full text-sm z-50 backdrop-blur-lg"
+          style={{
+            background: `${theme.background}ee`,
+            border: `1px solid ${theme.primary}40`,
+            boxShadow: `0 4px 14px ${theme.primary}40`,
+            color: theme.primary
+          }}
+        >
+          <span>{saveError}</span>
+          <button
+            onClick={dismissSaveError}
+            aria-label="Dismiss"
+            className="text-sm opacity-60 hover:opacity-100 transition-opacity"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
+      {/* Keyboard Shortcuts Popup */}
+      {showShortcuts && <ShortcutsOverlay onClose={() => setShowShortcuts(false)} />}
+
       {/* Help Popup */}
       {showHelp && (
         <div
@@ -0,0 +1,823 @@
+/**
+ * SettingsPage component that lets users manage their preferences.
+ * Features:
+ * - General: the pattern to open with and a theme for every pattern
+ * - Display: sphere, phase countdown or both, with count style and progress arc
+ * - Session: countdown length, settle-in and cool-down, screen wake lock and hidden tab behavior
+ * - Sound cues: on/off, tone set, per-cue volume and a preview
+ * - Continuous tone that follows the breath, with its own volume
+ * - Ambient soundscape mixer: soundscape, volume and texture
+ * - Voice coach: voice, rate, volume, what is spoken and for how long
+ * - Vibration: on/off, intensity, pulse pattern and pulse train
+ * - Accessibility: reduced motion guide and screen reader announcements
+ * - Keyboard shortcuts: press a new key for any action
+ * - Preferences saved automatically
+ * - Theme-aware styling
+ */
+import React, { useEffect, useId, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useBreathingStore } from '../store/breathingStore';
+import { useSettingsStore } from '../store/settingsStore';
+import { audioCuePlayer, TONE_SETS, type AudioSettings, type ToneSetId } from '../lib/audioCues';
+import { createPhases } from '../lib/breathingPhases';
+import { BREATHING_PATTERNS, PATTERN_THEMES } from '../lib/breathingPatterns';
+import { LAST_PATTERN, PATTERN_THEME } from '../lib/generalSettings';
+import {
+  browserSpeech,
+  voiceCoach,
+  VOICE_LIMITS,
+  VOICE_MODES,
+  type SpeechVoice,
+  type VoiceMode,
+  type VoiceSettings,
+} from '../lib/voiceCoach';
+import { SOUNDSCAPES, type SoundscapeSettings } from '../lib/soundscape';
+import { MOTION_PREFERENCES, type MotionPreference } from '../lib/accessibility';
+import { formatStageLength, STAGE_OPTIONS, type SessionStageSettings } from '../lib/sessionStages';
+import { HIDDEN_TAB_BEHAVIORS, screenWakeLock, type HiddenTabBehavior } from '../lib/wakeLock';
+import { COUNT_STYLES, DISPLAY_MODES, showsCountdown, type CountStyle, type DisplayMode } from '../lib/display';
+import {
+  CLOSE_KEY,
+  DEFAULT_SHORTCUTS,
+  formatKey,
+  getEventKey,
+  isBindableKey,
+  rebindShortcut,
+  SHORTCUT_LABELS,
+  type ShortcutAction,
+} from '../lib/shortcuts';
+import { hapticPacer, HAPTIC_PATTERNS, type HapticPatternId } from '../lib/haptics';
+
+/**
+ * Styles for the settings page
+ * Defines the visual appearance of:
+ * - Page layout and back button
+ * - Sections and rows
+ * - Inputs and buttons
+ */
+const SETTINGS_STYLES = {
+  container: "min-h-screen relative overflow-y-auto",
+  content: "relative z-10 max-w-xl mx-auto px-4 md:px-6 py-16 md:py-8",
+  header: "mb-6 text-center",
+  title: "text-xl md:text-2xl font-bold mb-2",
+  subtitle: "text-xs md:text-sm opacity-80",
+  backButton: "fixed top-4 md:top-6 left-4 md:left-6 px-3 md:px-4 py-1.5 md:py-2 rounded-full text-sm font-medium transition-all duration-300 transform hover:scale-105 backdrop-blur-lg cursor-pointer z-50",
+  section: "space-y-2 mb-4 p-3 md:p-4 rounded-xl backdrop-blur-lg",
+  sectionTitle: "font-medium text-sm md:text-base",
+  row: "flex items-center justify-between gap-3",
+  label: "text-xs md:text-sm",
+  select: "p-1 rounded bg-white/10 border border-white/20 text-xs md:text-sm",
+  slider: "w-32",
+  numberInput: "w-14 p-1 rounded bg-white/10 border border-white/20 text-sm text-center",
+  note: "text-xs opacity-70",
+  button: "px-3 py-1 rounded-full text-xs font-medium transition-all duration-300"
+} as const;
+
+/**
+ * Sample phases used to preview the cues
+ */
+const PREVIEW_PHASES = createPhases(2, 1, 2);
+
+/**
+ * Labels for the session stage settings
+ */
+const STAGE_LABELS: Record<keyof SessionStageSettings, string> = {
+  countdown: 'Countdown before starting',
+  settleIn: 'Settle in with natural breathing',
+  coolDown: 'Cool down afterwards'
+};
+
+/**
+ * SettingsPage component that shows every preference on one page
+ * Features:
+ * - Starting pattern and theme, including the user's custom patterns
+ * - Display preferences
+ * - Session stage lengths, background behavior and mood check-ins
+ * - Sound cue preferences
+ * - Ambient soundscape mix
+ * - Voice coach preferences, with the voices offered by the browser
+ * - Vibration preferences where the device supports them
+ * - Accessibility preferences
+ * - Shortcut key bindings
+ * - Back button to the home page
+ *
+ * @returns {JSX.Element} The rendered settings page
+ */
+export const SettingsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { theme, customPatterns } = useBreathingStore();
+  const {
+    general, setGeneralSettings,
+    display, setDisplaySettings,
+    stages, setStageSettings,
+    background, setBackgroundSettings,
+    checkIns, setCheckInSettings,
+    audio, setAudioSettings,
+    ambient, setAmbientSettings,
+    voice, setVoiceSettings,
+    haptics, setHapticSettings,
+    accessibility, setAccessibilitySettings,
+    shortcuts, setShortcuts
+  } = useSettingsStore();
+  const fieldId = useId();
+  const [voices, setVoices] = useState<SpeechVoice[]>([]);
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+
+  // Voices load asynchronously, so keep the list up to date while the panel is open
+  useEffect(() => browserSpeech.onVoicesChanged(setVoices), []);
+
+  /**
+   * Plays each cue in turn with the current settings
+   */
+  const handlePreview = () => {
+    let delay = 0;
+    PREVIEW_PHASES.forEach(phase => {
+      setTimeout(() => audioCuePlayer.playCue(phase, audio), delay * 1000);
+      delay += phase.duration;
+    });
+  };
+
+  /**
+   * Speaks a sample phrase with the current voice settings
+   */
+  const handleVoicePreview = (settings: VoiceSettings) => voiceCoach.sayCount(3, settings);
+
+  /**
+   * Plays each boundary pattern in turn with the current settings
+   */
+  const handleHapticPreview = () => {
+    let delay = 0;
+    PREVIEW_PHASES.forEach(phase => {
+      setTimeout(() => hapticPacer.pulsePhase(phase, haptics), delay * 1000);
+      delay += phase.duration;
+    });
+  };
+
+  /**
+   * Binds the next key pressed to the action waiting for a key
+   * Esc and Tab cancel; keys reserved for fixed shortcuts are ignored.
+   */
+  const handleShortcutKey = (e: React.KeyboardEvent, action: ShortcutAction) => {
+    if (capturing !== action) return;
+    const key = getEventKey(e);
+    if (key === 'Tab') {
+      setCapturing(null);
+      return;
+    }
+    // Keep the key away from the page shortcuts and from the button itself
+    e.preventDefault();
+    e.stopPropagation();
+    if (key === CLOSE_KEY) {
+      setCapturing(null);
+    } else if (isBindableKey(key)) {
+      setShortcuts(rebindShortcut(shortcuts, action, key));
+      setCapturing(null);
+    }
+  };
+
+  const setVolume = (cue: keyof AudioSettings['volumes'], value: string) =>
+    setAudioSettings({ volumes: { ...audio.volumes, [cue]: Number(value) } });
+
+  const fieldStyle = {
+    color: theme.primary,
+    borderColor: `${theme.primary}40`,
+    background: `${theme.primary}10`
+  };
+  const textStyle = { color: theme.primary };
+
+  const sectionStyle = {
+    background: `${theme.primary}10`,
+    border: `2px solid ${theme.primary}30`
+  };
+
+  return (
+    <div
+      className={SETTINGS_STYLES.container}
+      style={{ background: theme.background }}
+    >
+      <div className="fixed top-0 left-0 right-0 h-16 bg-gradient-to-b from-[#00000020] to-transparent z-40" />
+
+      <button
+        onClick={() => navigate('/')}
+        className={SETTINGS_STYLES.backButton}
+        style={{
+          background: `${theme.primary}40`,
+          border: `1px solid ${theme.primary}40`,
+          boxShadow: `0 4px 14px ${theme.primary}40`,
+          color: theme.primary
+        }}
+      >
+        ← Back
+      </button>
+
+      <div className={SETTINGS_STYLES.content}>
+        <div className={SETTINGS_STYLES.header}>
+          <h1 className={SETTINGS_STYLES.title} style={textStyle}>Settings</h1>
+          <p className={SETTINGS_STYLES.subtitle} style={textStyle}>
+            Changes are saved on this device as you make them
+          </p>
+        </div>
+
+        {/* General */}
+        <section className={SETTINGS_STYLES.section} style={sectionStyle}>
+          <h2 className={SETTINGS_STYLES.sectionTitle} style={textStyle}>General</h2>
+          <div className={SETTINGS_STYLES.row}>
+            <label htmlFor={`${fieldId}-default-pattern`} className={SETTINGS_STYLES.label} style={textStyle}>
+              Open with
+            </label>
+            <select
+              id={`${fieldId}-default-pattern`}
+              value={general.defaultPattern}
+              onChange={e => setGeneralSettings({ defaultPattern: e.target.value })}
+              className={SETTINGS_STYLES.select}
+              style={fieldStyle}
+            >
+              <option value={LAST_PATTERN}>Last pattern used</option>
+              {[...BREATHING_PATTERNS, ...customPatterns].map(pattern => (
+                <option key={pattern.id} value={pattern.id}>{pattern.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className={SETTINGS_STYLES.row}>
+            <label htmlFor={`${fieldId}-theme`} className={SETTINGS_STYLES.label} style={textStyle}>
+              Theme
+            </label>
+            <select
+              id={`${fieldId}-theme`}
+              value={general.theme}
+              onChange={e => setGeneralSettings({ theme: e.target.value })}
+              className={SETTINGS_STYLES.select}
+              style={fieldStyle}
+            >
+              <option value={PATTERN_THEME}>Each pattern's own</option>
+              {PATTERN_THEMES.map(t => (
+                <option key={t.name} value={t.name}>{t.name}</option>
+              ))}
+            </select>
+          </div>
+        </section>
+
+        {/* Display */}
+        <section className={SETTINGS_STYLES.section} style={sectionStyle}>
+          <h2 className={SETTINGS_STYLES.sectionTitle} style={textStyle}>Display</h2>
+          <div className={SETTINGS_STYLES.row}>
+            <label htmlFor={`${fieldId}-display`} className={SETTINGS_STYLES.label} style={textStyle}>
+              Show
+            </label>
+            <select
+              id={`${fieldId}-display`}
+              value={display.mode}
+              onChange={e => setDisplaySettings({ mode: e.target.value as DisplayMode })}
+              className={SETTINGS_STYLES.select}
+              style={fieldStyle}
+            >
+              {Object.entries(DISPLAY_MODES).map(([mode, label]) => (
+                <option key={mode} value={mode}>{label}</option>
+              ))}
+            </select>
+          </div>
+          {showsCountdown(display.mode) && (
+            <>
+              <div className={SETTINGS_STYLES.row}>
+                <label htmlFor={`${fieldId}-count-style`} className={SETTINGS_STYLES.label} style={textStyle}>
+                  Count
+                </label>
+                <select
+                  id={`${fieldId}-count-style`}
+                  value={display.countStyle}
+                  onChange={e => setDisplaySettings({ countStyle: e.target.value as CountStyle })}
+                  className={SETTINGS_STYLES.select}
+                  style={fieldStyle}
+                >
+                  {Object.entries(COUNT_STYLES).map(([style, label]) => (
+                    <option key={style} value={style}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className={SETTINGS_STYLES.row}>
+                <label htmlFor={`${fieldId}-arc`} className={SETTINGS_STYLES.label} style={textStyle}>
+                  Progress arc
+                </label>
+                <input
+                  id={`${fieldId}-arc`}
+                  type="checkbox"
+                  checked={display.progressArc}
+                  onChange={e => setDisplaySettings({ progressArc: e.target.checked })}
+                />
+              </div>
+            </>
+          )}
+        </section>
+
+        {/* Session stages */}
+        <section className={SETTINGS_STYLES.section} style={sectionStyle}>
+          <h2 className={SETTINGS_STYLES.sectionTitle} style={textStyle}>Session</h2>
+          {(Object.keys(STAGE_LABELS) as (keyof SessionStageSettings)[]).map(stage => (
+            <div key={stage} className={SETTINGS_STYLES.row}>
+              <label htmlFor={`${fieldId}-${stage}`} className={SETTINGS_STYLES.label} style={textStyle}>
+                {STAGE_LABELS[stage]}
+              </label>
+              <select
+                id={`${fieldId}-${stage}`}
+                value={stages[stage]}
+                onChange={e => setStageSettings({ [stage]: Number(e.target.value) })}
+                className={SETTINGS_STYLES.select}
+                style={fieldStyle}
+              >
+                {STAGE_OPTIONS[stage].map(seconds => (
+                  <option key={seconds} value={seconds}>{formatStageLength(seconds)}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <p className={SETTINGS_STYLES.note} style={textStyle}>
+            Settle-in and cool-down time is not counted in your stats.
+          </p>
+          {screenWakeLock.isSupported && (
+            <div className={SETTINGS_STYLES.row}>
+              <label htmlFor={`${fieldId}-keep-awake`} className={SETTINGS_STYLES.label} style={textStyle}>
+                Keep the screen on during sessions
+              </label>
+              <input
+                id={`${fieldId}-keep-awake`}
+                type="checkbox"
+                checked={background.keepAwake}
+                onChange={e => setBackgroundSettings({ keepAwake: e.target.checked })}
+              />
+            </div>
+          )}
+          <div className={SETTINGS_STYLES.row}>
+            <label htmlFor={`${fieldId}-when-hidden`} className={SETTINGS_STYLES.label} style={textStyle}>
+              When you switch away
+            </label>
+            <select
+              id={`${fieldId}-when-hidden`}
+              value={background.whenHidden}
+              onChange={e => setBackgroundSettings({ whenHidden: e.target.value as HiddenTabBehavior })}
+              className={SETTINGS_STYLES.select}
+              style={fieldStyle}
+            >
+              {Object.entries(HIDDEN_TAB_BEHAVIORS).map(([behavior, label]) => (
+                <option key={behavior} value={behavior}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className={SETTINGS_STYLES.row}>
+            <label htmlFor={`${fieldId}-check-ins`} className={SETTINGS_STYLES.label} style={textStyle}>
+              Check in before and after sessions
+            </label>
+            <input
+              id={`${fieldId}-check-ins`}
+              type="checkbox"
+              checked={checkIns.enabled}
+              onChange={e => setCheckInSettings({ enabled: e.target.checked })}
+            />
+          </div>
+          <p className={SETTINGS_STYLES.note} style={textStyle}>
+            Check-ins ask for your stress level and mood, and afterwards for notes and tags.
+          </p>
+        </section>
+
+        {/* Sound */}
+        <section className={SETTINGS_STYLES.section} style={sectionStyle}>
+          <h2 className={SETTINGS_STYLES.sectionTitle} style={textStyle}>Sound</h2>
+          <div className={SETTINGS_STYLES.row}>
+            <label htmlFor={`${fieldId}-audio`} className={SETTINGS_STYLES.label} style={textStyle}>
+              Sound cues
+            </label>
+            <input
+              id={`${fieldId}-audio`}
+              type="checkbox"
+              checked={audio.enabled}
+              onChange={e => setAudioSettings({ enabled: e.target.checked })}
+            />
+          </div>
+          {audio.enabled && (
+            <>
+              <div className={SETTINGS_STYLES.row}>
+                <label htmlFor={`${fieldId}-tones`} className={SETTINGS_STYLES.label} style={textStyle}>
+                  Tone set
+                </label>
+                <select
+                  id={`${fieldId}-tones`}
+                  value={audio.toneSet}
+                  onChange={e => setAudioSettings({ toneSet: e.target.value as ToneSetId })}
+                  className={SETTINGS_STYLES.select}
+                  style={fieldStyle}
+                >
+                  {Object.entries(TONE_SETS).map(([id, toneSet]) => (
+                    <option key={id} value={id}>{toneSet.name}</option>
+                  ))}
+                </select>
+              </div>
+              {(['inhale', 'hold', 'exhale'] as const).map(cue => (
+                <div key={cue} className={SETTINGS_STYLES.row}>
+                  <label htmlFor={`${fieldId}-${cue}`} className={SETTINGS_STYLES.label} style={textStyle}>
+                    {cue === 'inhale' ? 'Inhale volume' : cue === 'hold' ? 'Hold volume' : 'Exhale volume'}
+                  </label>
+                  <input
+                    id={`${fieldId}-${cue}`}
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={audio.volumes[cue]}
+                    onChange={e => setVolume(cue, e.target.value)}
+                    className={SETTINGS_STYLES.slider}
+                    style={{ accentColor: theme.primary }}
+                  />
+                </div>
+              ))}
+              <div className={SETTINGS_STYLES.row}>
+                <label htmlFor={`${fieldId}-continuous`} className={SETTINGS_STYLES.label} style={textStyle}>
+                  Continuous tone following the breath
+                </label>
+                <input
+                  id={`${fieldId}-continuous`}
+                  type="checkbox"
+                  checked={audio.continuousTone}
+                  onChange={e => setAudioSettings({ continuousTone: e.target.checked })}
+                />
+              </div>
+              {audio.continuousTone && (
+                <div className={SETTINGS_STYLES.row}>
+                  <label htmlFor={`${fieldId}-continuous-volume`} className={SETTINGS_STYLES.label} style={textStyle}>
+                    Continuous tone volume
+                  </label>
+                  <input
+                    id={`${fieldId}-continuous-volume`}
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={audio.continuousVolume}
+                    onChange={e => setAudioSettings({ continuousVolume: Number(e.target.value) })}
+                    className={SETTINGS_STYLES.slider}
+                    style={{ accentColor: theme.primary }}
+                  />
+                </div>
+              )}
+              <button onClick={handlePreview} className={SETTINGS_STYLES.button} style={fieldStyle}>
+                Preview cues
+              </button>
+            </>
+          )}
+        </section>
+
+        {/* Ambient soundscape */}
+        <section className={SETTINGS_STYLES.section} style={sectionStyle}>
+          <h2 className={SETTINGS_STYLES.sectionTitle} style={textStyle}>Soundscape</h2>
+          <div className={SETTINGS_STYLES.row}>
+            <label htmlFor={`${fieldId}-ambient`} className={SETTINGS_STYLES.label} style={textStyle}>
+              Ambient soundscape
+            </label>
+            <input
+              id={`${fieldId}-ambient`}
+              type="checkbox"
+              checked={ambient.enabled}
+              onChange={e => setAmbientSettings({ enabled: e.target.checked })}
+            />
+          </div>
+          {ambient.enabled && (
+            <>
+              <div className={SETTINGS_STYLES.row}>
+                <label htmlFor={`${fieldId}-soundscape`} className={SETTINGS_STYLES.label} style={textStyle}>
+                  Sound
+                </label>
+                <select
+                  id={`${fieldId}-soundscape`}
+                  value={ambient.soundscape}
+                  onChange={e => setAmbientSettings({ soundscape: e.target.value as SoundscapeSettings['soundscape'] })}
+                  className={SETTINGS_STYLES.select}
+                  style={fieldStyle}
+                >
+                  <option value="theme">Match theme</option>
+                  {Object.entries(SOUNDSCAPES).map(([id, soundscape]) => (
+                    <option key={id} value={id}>{soundscape.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className={SETTINGS_STYLES.row}>
+                <label htmlFor={`${fieldId}-ambient-volume`} className={SETTINGS_STYLES.label} style={textStyle}>
+                  Volume
+                </label>
+                <input
+                  id={`${fieldId}-ambient-volume`}
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={ambient.volume}
+                  onChange={e => setAmbientSettings({ volume: Number(e.target.value) })}
+                  className={SETTINGS_STYLES.slider}
+                  style={{ accentColor: theme.primary }}
+                />
+              </div>
+              <div className={SETTINGS_STYLES.row}>
+                <label htmlFor={`${fieldId}-ambient-texture`} className={SETTINGS_STYLES.label} style={textStyle}>
+                  Texture (dark to bright)
+                </label>
+                <input
+                  id={`${fieldId}-ambient-texture`}
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={ambient.texture}
+                  onChange={e => setAmbientSettings({ texture: Number(e.target.value) })}
+                  className={SETTINGS_STYLES.slider}
+                  style={{ accentColor: theme.primary }}
+                />
+              </div>
+            </>
+          )}
+        </section>
+
+        {/* Voice */}
+        <section className={SETTINGS_STYLES.section} style={sectionStyle}>
+          <h2 className={SETTINGS_STYLES.sectionTitle} style={textStyle}>Voice coach</h2>
+          {!browserSpeech.isSupported ? (
+            <p className={SETTINGS_STYLES.note} style={textStyle}>
+              Spoken guidance is not supported in this browser.
+            </p>
+          ) : (
+            <>
+              <div className={SETTINGS_STYLES.row}>
+                <label htmlFor={`${fieldId}-voice`} className={SETTINGS_STYLES.label} style={textStyle}>
+                  Voice guidance
+                </label>
+                <input
+                  id={`${fieldId}-voice`}
+                  type="checkbox"
+                  checked={voice.enabled}
+                  onChange={e => setVoiceSettings({ enabled: e.target.checked })}
+                />
+              </div>
+              {voice.enabled && (
+                <>
+                  <div className={SETTINGS_STYLES.row}>
+                    <label htmlFor={`${fieldId}-voice-name`} className={SETTINGS_STYLES.label} style={textStyle}>
+                      Voice
+                    </label>
+                    <select
+                      id={`${fieldId}-voice-name`}
+                      value={voice.voiceURI ?? ''}
+                      onChange={e => setVoiceSettings({ voiceURI: e.target.value || null })}
+                      className={`${SETTINGS_STYLES.select} max-w-[12rem]`}
+                      style={fieldStyle}
+                    >
+                      <option value="">Default</option>
+                      {voices.map(v => (
+                        <option key={v.voiceURI} value={v.voiceURI}>
+                          {v.name} ({v.lang})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className={SETTINGS_STYLES.row}>
+                    <label htmlFor={`${fieldId}-voice-mode`} className={SETTINGS_STYLES.label} style={textStyle}>
+                      Say
+                    </label>
+                    <select
+                      id={`${fieldId}-voice-mode`}
+                      value={voice.mode}
+                      onChange={e => setVoiceSettings({ mode: e.target.value as VoiceMode })}
+                      className={SETTINGS_STYLES.select}
+                      style={fieldStyle}
+                    >
+                      {Object.entries(VOICE_MODES).map(([mode, label]) => (
+                        <option key={mode} value={mode}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className={SETTINGS_STYLES.row}>
+                    <label htmlFor={`${fieldId}-voice-rate`} className={SETTINGS_STYLES.label} style={textStyle}>
+                      Rate
+                    </label>
+                    <input
+                      id={`${fieldId}-voice-rate`}
+                      type="range"
+                      min={VOICE_LIMITS.minRate}
+                      max={VOICE_LIMITS.maxRate}
+                      step="0.05"
+                      value={voice.rate}
+                      onChange={e => setVoiceSettings({ rate: Number(e.target.value) })}
+                      className={SETTINGS_STYLES.slider}
+                      style={{ accentColor: theme.primary }}
+                    />
+                  </div>
+                  <div className={SETTINGS_STYLES.row}>
+                    <label htmlFor={`${fieldId}-voice-volume`} className={SETTINGS_STYLES.label} style={textStyle}>
+                      Volume
+                    </label>
+                    <input
+                      id={`${fieldId}-voice-volume`}
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={voice.volume}
+                      onChange={e => setVoiceSettings({ volume: Number(e.target.value) })}
+                      className={SETTINGS_STYLES.slider}
+                      style={{ accentColor: theme.primary }}
+                    />
+                  </div>
+                  <div className={SETTINGS_STYLES.row}>
+                    <label htmlFor={`${fieldId}-voice-limit`} className={SETTINGS_STYLES.label} style={textStyle}>
+                      First cycles only
+                    </label>
+                    <div className="flex items-center gap-2">
+                      {voice.firstCycles !== null && (
+                        <input
+                          type="number"
+                          min="1"
+                          max={VOICE_LIMITS.maxCycles}
+                          value={voice.firstCycles}
+                          onChange={e => setVoiceSettings({
+                            firstCycles: Math.max(1, Math.min(VOICE_LIMITS.maxCycles, parseInt(e.target.value) || 1))
+                          })}
+                          className={SETTINGS_STYLES.numberInput}
+                          style={fieldStyle}
+                          aria-label="Number of guided cycles"
+                        />
+                      )}
+                      <input
+                        id={`${fieldId}-voice-limit`}
+                        type="checkbox"
+                        checked={voice.firstCycles !== null}
+                        onChange={e => setVoiceSettings({
+                          firstCycles: e.target.checked ? VOICE_LIMITS.defaultCycles : null
+                        })}
+                      />
+                    </div>
+                  </div>
+                  <div className={SETTINGS_STYLES.row}>
+                    <label htmlFor={`${fieldId}-voice-countdown`} className={SETTINGS_STYLES.label} style={textStyle}>
+                      Speak the 3-2-1 before starting
+                    </label>
+                    <input
+                      id={`${fieldId}-voice-countdown`}
+                      type="checkbox"
+                      checked={voice.speakInitialCountdown}
+                      onChange={e => setVoiceSettings({ speakInitialCountdown: e.target.checked })}
+                    />
+                  </div>
+                  <button
+                    onClick={() => handleVoicePreview(voice)}
+                    className={SETTINGS_STYLES.button}
+                    style={fieldStyle}
+                  >
+                    Preview voice
+                  </button>
+                </>
+              )}
+            </>
+          )}
+        </section>
+
+        {/* Vibration */}
+        <section className={SETTINGS_STYLES.section} style={sectionStyle}>
+          <h2 className={SETTINGS_STYLES.sectionTitle} style={textStyle}>Vibration</h2>
+          {!hapticPacer.isSupported ? (
+            <p className={SETTINGS_STYLES.note} style={textStyle}>
+              Vibration is not supported on this device.
+            </p>
+          ) : (
+            <>
+              <div className={SETTINGS_STYLES.row}>
+                <label htmlFor={`${fieldId}-haptics`} className={SETTINGS_STYLES.label} style={textStyle}>
+                  Vibrate at each phase
+                </label>
+                <input
+                  id={`${fieldId}-haptics`}
+                  type="checkbox"
+                  checked={haptics.enabled}
+                  onChange={e => setHapticSettings({ enabled: e.target.checked })}
+                />
+              </div>
+              {haptics.enabled && (
+                <>
+                  <div className={SETTINGS_STYLES.row}>
+                    <label htmlFor={`${fieldId}-haptic-pattern`} className={SETTINGS_STYLES.label} style={textStyle}>
+                      Pattern
+                    </label>
+                    <select
+                      id={`${fieldId}-haptic-pattern`}
+                      value={haptics.pattern}
+                      onChange={e => setHapticSettings({ pattern: e.target.value as HapticPatternId })}
+                      className={SETTINGS_STYLES.select}
+                      style={fieldStyle}
+                    >
+                      {Object.entries(HAPTIC_PATTERNS).map(([id, pattern]) => (
+                        <option key={id} value={id}>{pattern.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className={SETTINGS_STYLES.row}>
+                    <label htmlFor={`${fieldId}-haptic-intensity`} className={SETTINGS_STYLES.label} style={textStyle}>
+                      Intensity
+                    </label>
+                    <input
+                      id={`${fieldId}-haptic-intensity`}
+                      type="range"
+                      min="0.25"
+                      max="1"
+                      step="0.05"
+                      value={haptics.intensity}
+                      onChange={e => setHapticSettings({ intensity: Number(e.target.value) })}
+                      className={SETTINGS_STYLES.slider}
+                      style={{ accentColor: theme.primary }}
+                    />
+                  </div>
+                  <div className={SETTINGS_STYLES.row}>
+                    <label htmlFor={`${fieldId}-haptic-train`} className={SETTINGS_STYLES.label} style={textStyle}>
+                      Gentle pulses throughout each phase
+                    </label>
+                    <input
+                      id={`${fieldId}-haptic-train`}
+                      type="checkbox"
+                      checked={haptics.pulseTrain}
+                      onChange={e => setHapticSettings({ pulseTrain: e.target.checked })}
+                    />
+                  </div>
+                  <button
+                    onClick={handleHapticPreview}
+                    className={SETTINGS_STYLES.button}
+                    style={fieldStyle}
+                  >
+                    Preview vibration
+                  </button>
+                </>
+              )}
+            </>
+          )}
+        </section>
+
+        {/* Accessibility */}
+        <section className={SETTINGS_STYLES.section} style={sectionStyle}>
+          <h2 className={SETTINGS_STYLES.sectionTitle} style={textStyle}>Accessibility</h2>
+          <div className={SETTINGS_STYLES.row}>
+            <label htmlFor={`${fieldId}-motion`} className={SETTINGS_STYLES.label} style={textStyle}>
+              Motion
+            </label>
+            <select
+              id={`${fieldId}-motion`}
+              value={accessibility.motion}
+              onChange={e => setAccessibilitySettings({ motion: e.target.value as MotionPreference })}
+              className={SETTINGS_STYLES.select}
+              style={fieldStyle}
+            >
+              {Object.entries(MOTION_PREFERENCES).map(([motion, label]) => (
+                <option key={motion} value={motion}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className={SETTINGS_STYLES.row}>
+            <label htmlFor={`${fieldId}-announcements`} className={SETTINGS_STYLES.label} style={textStyle}>
+              Announce phases to screen readers
+            </label>
+            <input
+              id={`${fieldId}-announcements`}
+              type="checkbox"
+              checked={accessibility.announcements}
+              onChange={e => setAccessibilitySettings({ announcements: e.target.checked })}
+            />
+          </div>
+        </section>
+
+        {/* Keyboard shortcuts */}
+        <section className={SETTINGS_STYLES.section} style={sectionStyle}>
+          <h2 className={SETTINGS_STYLES.sectionTitle} style={textStyle}>Keyboard shortcuts</h2>
+          {(Object.keys(SHORTCUT_LABELS) as ShortcutAction[]).map(action => (
+            <div key={action} className={SETTINGS_STYLES.row}>
+              <span className={SETTINGS_STYLES.label} style={textStyle}>
+                {SHORTCUT_LABELS[action]}
+              </span>
+              <button
+                onClick={() => setCapturing(action)}
+                onKeyDown={e => handleShortcutKey(e, action)}
+                onBlur={() => setCapturing(null)}
+                className={`${SETTINGS_STYLES.button} font-mono min-w-[4rem]`}
+                style={fieldStyle}
+                aria-label={`${SHORTCUT_LABELS[action]}: ${capturing === action ? 'press a key' : formatKey(shortcuts[action])}`}
+                aria-describedby={capturing === action ? `${fieldId}-shortcut-hint` : undefined}
+              >
+                {capturing === action ? 'Press a key' : formatKey(shortcuts[action])}
+              </button>
+            </div>
+          ))}
+          <p id={`${fieldId}-shortcut-hint`} className={SETTINGS_STYLES.note} style={textStyle}>
+            Click a key, then press the new one. Esc, Enter, Tab and 1-9 are reserved.
+          </p>
+          <button
+            onClick={() => setShortcuts(DEFAULT_SHORTCUTS)}
+            className={SETTINGS_STYLES.button}
+            style={fieldStyle}
+          >
+            Reset shortcuts
+          </button>
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Line, Doughnut } from 'react-chartjs-2';
+import { Bar, Line, Doughnut } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
   CategoryScale,
@@ -11,8 +11,14 @@ import {
   Tooltip,
   Legend,
   ArcElement,
+  BarElement,
 } from 'chart.js';
 import { useBreathingStore } from '../store/breathingStore';
+import { arePhasesEqual, formatPattern } from '../lib/breathingPhases';
+import { getPattern } from '../lib/breathingPatterns';
+import { getStressReduction, MOODS } from '../lib/checkIns';
+import { SessionData } from '../components/SessionData';
+import { sessionRepository, type Session, type SessionPage, type SessionQuery } from '../lib/sessionRepository';
 
 ChartJS.register(
   CategoryScale,
@@ -22,51 +28,10 @@ ChartJS.register(
   Title,
   Tooltip,
   Legend,
-  ArcElement
+  ArcElement,
+  BarElement
 );
 
-interface Session {
-  id: string;
-  pattern: string;
-  duration: number;
-  date: string;
-  inhaleTime: number;
-  holdTime: number;
-  exhaleTime: number;
-}
-
-// List of patterns with their specific colors and descriptions
-const BREATHING_PATTERNS = [
-  {
-    name: 'Calm',
-    inhale: 4,
-    hold: 4,
-    exhale: 6,
-    description: 'Perfect for relaxation and stress relief'
-  },
-  {
-    name: 'Focus',
-    inhale: 4,
-    hold: 7,
-    exhale: 8,
-    description: 'Enhances concentration and mental clarity'
-  },
-  {
-    name: 'Balance',
-    inhale: 4,
-    hold: 4,
-    exhale: 4,
-    description: 'Promotes emotional balance and stability'
-  },
-  {
-    name: 'Deep',
-    inhale: 6,
-    hold: 2,
-    exhale: 7,
-    description: 'Deep breathing for energy and vitality'
-  }
-];
-
 const STATS_STYLES = {
   container: "min-h-screen relative overflow-y-auto",
   content: "relative z-10 max-w-7xl mx-auto px-4 md:px-6 py-16 md:py-8",
@@ -78,7 +43,7 @@ const STATS_STYLES = {
   mainGrid: "grid grid-cols-1 md:grid-cols-5 gap-4 md:gap-6 pb-8",
   leftSection: "col-span-1 md:col-span-3",
   rightSection: "col-span-1 md:col-span-2",
-  statsGrid: "grid grid-cols-2 gap-3 md:gap-4 mb-4 md:mb-6",
+  statsGrid: "grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-4 mb-4 md:mb-6",
   statCard: "text-center p-3 md:p-4 rounded-xl backdrop-blur-lg transition-all duration-300 transform hover:scale-102",
   statValue: "text-xl md:text-2xl font-bold mb-1",
   statLabel: "text-xs md:text-sm opacity-80",
@@ -94,32 +59,94 @@ const STATS_STYLES = {
   pageInfo: "text-xs opacity-80",
   chartCard: "p-3 md:p-4 rounded-xl backdrop-blur-lg transition-all duration-300 mb-3 md:mb-4",
   chartTitle: "text-sm font-medium mb-2 md:mb-3",
-  chartContainer: "h-32 md:h-40"
+  chartContainer: "h-32 md:h-40",
+  chartEmpty: "h-32 md:h-40 flex items-center justify-center text-center text-xs opacity-60",
+  rangeBar: "flex flex-wrap justify-center gap-2 mb-4 md:mb-6",
+  rangeButton: "px-3 py-1 rounded-full text-xs font-medium backdrop-blur-lg transition-all duration-300"
+} as const;
+
+/**
+ * Date ranges the stats can be limited to, in days back from now
+ */
+const STATS_RANGES = {
+  week: { label: '7 days', days: 7 },
+  month: { label: '30 days', days: 30 },
+  quarter: { label: '90 days', days: 90 },
+  year: { label: 'Year', days: 365 },
+  all: { label: 'All time', days: null }
 } as const;
 
+type StatsRange = keyof typeof STATS_RANGES;
+
+const SESSIONS_PER_PAGE = 4;
+
+/**
+ * Gets the query for the sessions in a date range
+ */
+const getRangeQuery = (range: StatsRange): SessionQuery => {
+  const { days } = STATS_RANGES[range];
+  return days === null ? {} : { from: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() };
+};
+
 export const StatsPage: React.FC = () => {
   const navigate = useNavigate();
-  const { theme } = useBreathingStore();
+  const { theme, customPatterns } = useBreathingStore();
+  const [range, setRange] = useState<StatsRange>('month');
   const [sessions, setSessions] = useState<Session[]>([]);
+  const [page, setPage] = useState<SessionPage>({ sessions: [], total: 0 });
   const [currentPage, setCurrentPage] = useState(1);
-  const sessionsPerPage = 4;
+  // Bumped to reload the sessions after an import
+  const [revision, setRevision] = useState(0);
+  const [hasLoadError, setHasLoadError] = useState(false);
 
+  // Sessions in the chosen range, for the totals and charts
   useEffect(() => {
-    const storedSessions = localStorage.getItem('breathing-sessions');
-    if (storedSessions) {
-      setSessions(JSON.parse(storedSessions));
-    }
-  }, []);
+    let isCurrent = true;
+    sessionRepository
+      .query(getRangeQuery(range))
+      .then(rangeSessions => {
+        if (isCurrent) setSessions(rangeSessions);
+      })
+      .catch(() => {
+        if (isCurrent) setHasLoadError(true);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [range, revision]);
+
+  // The current page of the session list, newest first
+  useEffect(() => {
+    let isCurrent = true;
+    sessionRepository
+      .getPage({ ...getRangeQuery(range), offset: (currentPage - 1) * SESSIONS_PER_PAGE, limit: SESSIONS_PER_PAGE })
+      .then(sessionPage => {
+        if (isCurrent) setPage(sessionPage);
+      })
+      .catch(() => {
+        if (isCurrent) setHasLoadError(true);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [range, currentPage, revision]);
+
+  const handleRangeChange = (newRange: StatsRange) => {
+    setRange(newRange);
+    setCurrentPage(1);
+  };
 
   const handleClearStats = () => {
-    if (window.confirm('Are you sure you want to clear all your breathing session data? This action cannot be undone.')) {
-      localStorage.removeItem('breathing-sessions');
+    if (window.confirm('Are you sure you want to clear all your breathing session data? This action cannot be undone, so export a backup first if you may want it back.')) {
+      sessionRepository.clear().catch(() => setHasLoadError(true));
       setSessions([]);
+      setPage({ sessions: [], total: 0 });
       setCurrentPage(1);
     }
   };
 
-  const formatDuration = (seconds: number) => {
+  const formatDuration = (totalSeconds: number) => {
+    const seconds = Math.round(totalSeconds);
     const minutes = Math.floor(seconds / 60);
     const remainingSeconds = seconds % 60;
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
@@ -140,37 +167,62 @@ export const StatsPage: React.FC = () => {
     };
   };
 
-  const getPatternInfo = (inhale: number, hold: number, exhale: number) => {
-    const pattern = BREATHING_PATTERNS.find(
-      p => p.inhale === inhale && p.hold === hold && p.exhale === exhale
-    );
+  const getPatternInfo = (session: Session) => {
+    const pattern = getPattern(session.patternId, customPatterns);
     return pattern || {
-      name: `${inhale}-${hold}-${exhale}`,
+      name: 'Custom',
       description: 'Custom breathing pattern'
     };
   };
 
+  // Routine sessions are named and charted by their routine rather than a pattern
+  const getSessionName = (session: Session) => session.routine?.name ?? getPatternInfo(session).name;
+
+  // Timings a session started and ended with, e.g. "4-4-4 → 4-4-6" for progressive patterns
+  const formatSessionTimings = (session: Session) => {
+    const { phases, endPhases } = session;
+    return arePhasesEqual(phases, endPhases)
+      ? formatPattern(phases)
+      : `${formatPattern(phases)} → ${formatPattern(endPhases)}`;
+  };
+
   // Calculate statistics
   const totalSessions = sessions.length;
   const totalDuration = sessions.reduce((acc, session) => acc + session.duration, 0);
+  const totalCycles = sessions.reduce((acc, session) => acc + session.cycles, 0);
+  // Sessions saved before completion was recorded are left out of the rate
+  const ratedSessions = sessions.filter(session => session.status !== undefined);
+  const completionRate = ratedSessions.length > 0
+    ? `${Math.round((ratedSessions.filter(session => session.status === 'completed').length / ratedSessions.length) * 100)}%`
+    : '–';
   
   // Pagination calculations
-  const totalPages = Math.ceil(sessions.length / sessionsPerPage);
-  const startIndex = (currentPage - 1) * sessionsPerPage;
-  const endIndex = startIndex + sessionsPerPage;
-  const currentSessions = sessions.slice(startIndex, endIndex);
+  const totalPages = Math.ceil(page.total / SESSIONS_PER_PAGE);
+  const currentSessions = page.sessions;
 
   // Prepare chart data
   const sessionDurations = sessions.map(session => session.duration / 60);
   const patternUsage = sessions.reduce((acc, session) => {
-    const pattern = getPatternInfo(session.inhaleTime, session.holdTime, session.exhaleTime).name;
+    const pattern = getSessionName(session);
     acc[pattern] = (acc[pattern] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
 
+  // Average drop in stress from the check-in before a session to the one after, per pattern
+  const stressReductions = sessions.reduce((acc, session) => {
+    const reduction = getStressReduction(session.checkIn);
+    if (reduction === null) return acc;
+    const pattern = getSessionName(session);
+    acc[pattern] = [...(acc[pattern] || []), reduction];
+    return acc;
+  }, {} as Record<string, number[]>);
+  const averageStressReductions = Object.values(stressReductions).map(
+    reductions => Math.round((reductions.reduce((acc, value) => acc + value, 0) / reductions.length) * 10) / 10
+  );
+
   const durationChartData = {
     labels: sessions.map(session => {
-      const { date, time } = formatDate(session.date);
+      const { date, time } = formatDate(session.startedAt);
       return `${date} ${time}`;
     }),
     datasets: [{
@@ -197,6 +249,16 @@ export const StatsPage: React.FC = () => {
     }]
   };
 
+  const stressChartData = {
+    labels: Object.keys(stressReductions),
+    datasets: [{
+      label: 'Average stress reduction',
+      data: averageStressReductions,
+      backgroundColor: `${theme.primary}60`,
+      borderRadius: 4
+    }]
+  };
+
   const chartOptions = {
     responsive: true,
     maintainAspectRatio: false,
@@ -226,6 +288,15 @@ export const StatsPage: React.FC = () => {
     }
   };
 
+  // Pattern names and values are the point of the stress chart, so its axes are labeled
+  const stressChartOptions = {
+    ...chartOptions,
+    scales: {
+      y: { ...chartOptions.scales.y, ticks: { color: theme.primary } },
+      x: { ...chartOptions.scales.x, ticks: { color: theme.primary } }
+    }
+  };
+
   return (
     <div 
       className={STATS_STYLES.container}
@@ -269,6 +340,24 @@ export const StatsPage: React.FC = () => {
           </p>
         </div>
 
+        <div className={STATS_STYLES.rangeBar} role="group" aria-label="Date range">
+          {(Object.keys(STATS_RANGES) as StatsRange[]).map(option => (
+            <button
+              key={option}
+              onClick={() => handleRangeChange(option)}
+              className={STATS_STYLES.rangeButton}
+              aria-pressed={range === option}
+              style={{
+                background: range === option ? `${theme.primary}40` : `${theme.primary}10`,
+                border: `1px solid ${theme.primary}40`,
+                color: theme.primary
+              }}
+            >
+              {STATS_RANGES[option].label}
+            </button>
+          ))}
+        </div>
+
         <div className={STATS_STYLES.mainGrid}>
           <div className={STATS_STYLES.leftSection}>
             <div className={STATS_STYLES.statsGrid}>
@@ -303,14 +392,46 @@ export const StatsPage: React.FC = () => {
                   Total Time
                 </div>
               </div>
+
+              <div 
+                className={STATS_STYLES.statCard}
+                style={{ 
+                  background: `${theme.primary}20`,
+                  border: `2px solid ${theme.primary}40`,
+                  boxShadow: `0 4px 14px ${theme.primary}40`
+                }}
+              >
+                <div className={STATS_STYLES.statValue} style={{ color: theme.primary }}>
+                  {totalCycles}
+                </div>
+                <div className={STATS_STYLES.statLabel} style={{ color: theme.primary }}>
+                  Cycles
+                </div>
+              </div>
+
+              <div 
+                className={STATS_STYLES.statCard}
+                style={{ 
+                  background: `${theme.primary}20`,
+                  border: `2px solid ${theme.primary}40`,
+                  boxShadow: `0 4px 14px ${theme.primary}40`
+                }}
+              >
+                <div className={STATS_STYLES.statValue} style={{ color: theme.primary }}>
+                  {completionRate}
+                </div>
+                <div className={STATS_STYLES.statLabel} style={{ color: theme.primary }}>
+                  Completed
+                </div>
+              </div>
             </div>
 
             <div className={STATS_STYLES.sessionList}>
               {currentSessions.length > 0 ? (
                 <>
                   {currentSessions.map((session) => {
-                    const patternInfo = getPatternInfo(session.inhaleTime, session.holdTime, session.exhaleTime);
-                    const { date, time } = formatDate(session.date);
+                    const { date, time } = formatDate(session.startedAt);
+                    const endTime = formatDate(session.date).time;
                     return (
                       <div 
                         key={session.id} 
@@ -325,20 +446,55 @@ export const StatsPage: React.FC = () => {
                           <div>
                             <div className="flex items-center gap-2">
                               <div className={STATS_STYLES.patternName} style={{ color: theme.primary }}>
-                                {patternInfo.name}
-                              </div>
-                              <div className={STATS_STYLES.patternDetails} style={{ color: theme.primary }}>
-                                ({session.inhaleTime}-{session.holdTime}-{session.exhaleTime})
+                                {getSessionName(session)}
                               </div>
+                              {!session.routine && (
+                                <div className={STATS_STYLES.patternDetails} style={{ color: theme.primary }}>
+                                  ({formatSessionTimings(session)})
+                                </div>
+                              )}
                             </div>
+                            {session.routine?.segments.map((segment, index) => (
+                              <div key={index} className={STATS_STYLES.details} style={{ color: theme.primary }}>
+                                {getPattern(segment.patternId, customPatterns)?.name ?? segment.name} ({segment.pattern}): {formatDuration(segment.duration)}, {segment.cycles} {segment.cycles === 1 ? 'cycle' : 'cycles'}
+                              </div>
+                            ))}
+                            {session.tags && session.tags.length > 0 && (
+                              <div className={STATS_STYLES.details} style={{ color: theme.primary }}>
+                                {session.tags.map(tag => `#${tag}`).join(' ')}
+                              </div>
+                            )}
+                            {session.notes && (
+                              <div className={`${STATS_STYLES.details} italic`} style={{ color: theme.primary }}>
+                                {session.notes}
+                              </div>
+                            )}
                           </div>
                           <div className="text-right">
                             <div className={STATS_STYLES.duration} style={{ color: theme.primary }}>
                               {formatDuration(session.duration)}
                             </div>
                             <div className={STATS_STYLES.details} style={{ color: theme.primary }}>
-                              {date} {time}
+                              {session.cycles} {session.cycles === 1 ? 'cycle' : 'cycles'}
+                            </div>
+                            <div className={STATS_STYLES.details} style={{ color: theme.primary }}>
+                              {date} {time}{endTime !== time && `–${endTime}`}
                             </div>
+                            {session.checkIn?.before && session.checkIn.after && (
+                              <div className={STATS_STYLES.details} style={{ color: theme.primary }}>
+                                Stress {session.checkIn.before.stress} → {session.checkIn.after.stress} {MOODS[session.checkIn.after.mood].emoji}
+                              </div>
+                            )}
+                            {session.status === 'abandoned' && (
+                              <div className={STATS_STYLES.details} style={{ color: theme.primary }}>
+                                Stopped early
+                              </div>
+                            )}
+                            {session.pauses.length > 0 && (
+                              <div className={STATS_STYLES.details} style={{ color: theme.primary }}>
+                                {session.pauses.length} {session.pauses.length === 1 ? 'pause' : 'pauses'} ({formatDuration(session.pauses.reduce((acc, pause) => acc + pause, 0))})
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -389,8 +545,14 @@ export const StatsPage: React.FC = () => {
                 </>
               ) : (
                 <div className={STATS_STYLES.emptyState} style={{ color: theme.primary }}>
-                  <p>No sessions recorded yet.</p>
-                  <p className="mt-1">Start your breathing journey to see your progress here.</p>
+                  {hasLoadError ? (
+                    <p role="alert">Your sessions could not be loaded. Please try again later.</p>
+                  ) : (
+                    <>
+                      <p>{range === 'all' ? 'No sessions recorded yet.' : 'No sessions in this period.'}</p>
+                      <p className="mt-1">Start your breathing journey to see your progress here.</p>
+                    </>
+                  )}
                 </div>
               )}
             </div>
@@ -428,6 +590,30 @@ export const StatsPage: React.FC = () => {
                 <Doughnut data={patternChartData} options={chartOptions} />
               </div>
             </div>
+
+            <div 
+              className={STATS_STYLES.chartCard}
+              style={{ 
+                background: `${theme.primary}20`,
+                border: `2px solid ${theme.primary}40`,
+                boxShadow: `0 4px 14px ${theme.primary}40`
+              }}
+            >
+              <div className={STATS_STYLES.chartTitle} style={{ color: theme.primary }}>
+                Stress Reduction by Pattern
+              </div>
+              {averageStressReductions.length > 0 ? (
+                <div className={STATS_STYLES.chartContainer}>
+                  <Bar data={stressChartData} options={stressChartOptions} />
+                </div>
+              ) : (
+                <div className={STATS_STYLES.chartEmpty} style={{ color: theme.primary }}>
+                  Check in before and after your sessions to see which patterns ease your stress.
+                </div>
+              )}
+            </div>
+
+            <SessionData onImported={() => setRevision(value => value + 1)} />
           </div>
         </div>
       </div>
@@ -3,42 +3,105 @@
  * Uses Zustand for state management and provides a centralized store for:
  * - Breathing pattern configuration
  * - Session state management
- * - Theme customization
+ * - Theme customization, following the user's theme preference
+ * - Starting pattern and theme loaded from the user's preferences
  * - UI state synchronization
  */
 
 import { create } from 'zustand';
+import {
+  formatProgression,
+  type BreathingPhase,
+  type PatternProgression,
+  type PhaseType,
+} from '../lib/breathingPhases';
+import { sessionEngine, type SessionGoal } from '../lib/sessionEngine';
+import { sessionRepository } from '../lib/sessionRepository';
+import type { Routine } from '../lib/routines';
+import { loadCustomPatterns, saveCustomPatterns, type CustomPattern } from '../lib/customPatterns';
+import { loadTimingLimits, saveTimingLimits, type TimingLimits } from '../lib/timingLimits';
+import type { PatternDefinition } from '../lib/breathingPatterns';
+import { getStartupPattern, resolveTheme } from '../lib/generalSettings';
+import type { MoodCheckIn, SessionReflection } from '../lib/checkIns';
+import { useSettingsStore } from './settingsStore';
+
+/**
+ * Colors of a theme
+ */
+interface BreathingTheme {
+  primary: string;
+  secondary: string;
+  background: string;
+}
 
 /**
  * Interface defining the shape of the breathing exercise state
  * Includes:
- * - Breathing pattern timing (inhale, hold, exhale)
- * - Session state (isBreathing, currentPhase)
- * - Session tracking (elapsedTime)
- * - Theme configuration
+ * - Breathing pattern as an ordered list of phases, with an optional progression
+ *   and the ID of the pattern it came from (null for unsaved custom patterns)
+ * - Library of saved custom patterns and the upper limits for their timings
+ * - Phases of the current cycle, which change over time for progressive patterns
+ * - Session state (isCountingDown, isSettlingIn, isBreathing, isPaused, isCoolingDown,
+ *   currentPhase, currentPhaseIndex, currentCycle)
+ * - Session goal (open-ended, timed or a number of cycles)
+ * - Mood check-ins: the one being asked for, the check-in given before the current
+ *   session and the saved session the check-in afterwards belongs to
+ * - A message when a session or check-in could not be saved
+ * - Active routine and its current segment
+ * - Session tracking (elapsedTime), published by the session engine
+ * - Theme configuration: the current pattern's theme and the theme shown, which
+ *   differ when the user has chosen one theme for every pattern
  * - State modification methods
  */
 interface BreathingState {
-  inhaleTime: number;
-  holdTime: number;
-  exhaleTime: number;
+  phases: BreathingPhase[];
+  progression: PatternProgression | null;
+  patternId: string | null;
+  cyclePhases: BreathingPhase[];
+  isCountingDown: boolean;
+  isSettlingIn: boolean;
   isBreathing: boolean;
-  currentPhase: 'inhale' | 'hold' | 'exhale' | 'rest';
+  isPaused: boolean;
+  isCoolingDown: boolean;
+  currentPhase: PhaseType | 'rest';
+  currentPhaseIndex: number;
+  currentCycle: number;
   elapsedTime: number;
-  theme: {
-    primary: string;
-    secondary: string;
-    background: string;
-  };
-  setBreathingPattern: (inhale: number, hold: number, exhale: number) => void;
-  setTheme: (theme: { primary: string; secondary: string; background: string }) => void;
+  sessionGoal: SessionGoal;
+  checkInStage: 'before' | 'after' | null;
+  beforeCheckIn: MoodCheckIn | null;
+  checkInSessionId: string | null;
+  saveError: string | null;
+  activeRoutine: Routine | null;
+  currentSegment: number;
+  customPatterns: CustomPattern[];
+  timingLimits: TimingLimits;
+  patternTheme: BreathingTheme;
+  theme: BreathingTheme;
+  setBreathingPattern: (
+    phases: BreathingPhase[],
+    progression?: PatternProgression | null,
+    patternId?: string | null
+  ) => void;
+  setTheme: (theme: BreathingTheme) => void;
+  selectPattern: (pattern: PatternDefinition) => void;
+  setSessionGoal: (goal: SessionGoal) => void;
+  setActiveRoutine: (routine: Routine | null) => void;
+  saveCustomPattern: (pattern: CustomPattern) => void;
+  deleteCustomPattern: (id: string) => void;
+  setTimingLimits: (limits: TimingLimits) => void;
+  beginCountdown: () => void;
+  submitBeforeCheckIn: (checkIn: MoodCheckIn | null) => void;
+  submitAfterCheckIn: (reflection: SessionReflection | null) => void;
+  dismissSaveError: () => void;
+  cancelCountdown: () => void;
+  beginSettleIn: () => void;
+  endCoolDown: () => void;
   startBreathing: () => void;
   stopBreathing: () => void;
-  setCurrentPhase: (phase: 'inhale' | 'hold' | 'exhale' | 'rest') => void;
-  setInhaleTime: (time: number) => void;
-  setHoldTime: (time: number) => void;
-  setExhaleTime: (time: number) => void;
-  setElapsedTime: (time: number) => void;
+  finishBreathing: () => void;
+  pauseBreathing: () => void;
+  resumeBreathing: () => void;
 }
 
 /**
@@ -58,37 +121,307 @@ const updateScrollbarColors = (primary: string) => {
   root.style.setProperty('--scrollbar-thumb-hover', `rgba(${r}, ${g}, ${b}, 0.7)`);
 };
 
+const initialCustomPatterns = loadCustomPatterns();
+const initialPattern = getStartupPattern(useSettingsStore.getState().general, initialCustomPatterns);
+
 /**
  * Zustand store for managing breathing exercise state
  * Provides:
- * - Default breathing pattern (4-4-6)
- * - Default theme (blue/teal)
+ * - Starting pattern and theme from the user's preferences (the 4-4-6 Calm pattern by default)
  * - State modification methods
  * - Theme synchronization with UI elements
  */
-export const useBreathingStore = create<BreathingState>((set, _) => ({
-  inhaleTime: 4,
-  holdTime: 4,
-  exhaleTime: 6,
+export const useBreathingStore = create<BreathingState>((set, get) => ({
+  phases: initialPattern.phases,
+  progression: initialPattern.progression ?? null,
+  patternId: initialPattern.id,
+  cyclePhases: initialPattern.phases,
+  isCountingDown: false,
+  isSettlingIn: false,
   isBreathing: false,
+  isPaused: false,
+  isCoolingDown: false,
   currentPhase: 'rest',
+  currentPhaseIndex: 0,
+  currentCycle: 0,
   elapsedTime: 0,
-  theme: {
-    primary: '#64b5f6', // Blue 300
-    secondary: '#80cbc4', // Teal 200
-    background: '#e0f7fa', // Sky 100
-  },
-  setBreathingPattern: (inhale, hold, exhale) =>
-    set({ inhaleTime: inhale, holdTime: hold, exhaleTime: exhale, currentPhase: 'inhale' }),
-  setTheme: (theme: { primary: string; secondary: string; background: string }) => {
-    set({ theme });
+  sessionGoal: { type: 'open' },
+  checkInStage: null,
+  beforeCheckIn: null,
+  checkInSessionId: null,
+  saveError: null,
+  activeRoutine: null,
+  currentSegment: 0,
+  customPatterns: initialCustomPatterns,
+  timingLimits: loadTimingLimits(),
+  patternTheme: initialPattern.theme,
+  theme: resolveTheme(initialPattern.theme, useSettingsStore.getState().general.theme),
+  setBreathingPattern: (phases, progression = null, patternId = null) =>
+    set({
+      phases,
+      progression,
+      patternId,
+      cyclePhases: phases,
+      currentPhase: phases[0].type,
+      currentPhaseIndex: 0,
+    }),
+  /**
+   * Sets the current pattern's theme and shows it, or the theme the user has chosen instead
+   */
+  setTheme: (patternTheme) => {
+    const theme = resolveTheme(patternTheme, useSettingsStore.getState().general.theme);
+    set({ patternTheme, theme });
     updateScrollbarColors(theme.primary);
   },
-  startBreathing: () => set({ isBreathing: true, currentPhase: 'inhale' }),
-  stopBreathing: () => set({ isBreathing: false, currentPhase: 'rest' }),
-  setCurrentPhase: (phase) => set({ currentPhase: phase }),
-  setInhaleTime: (time) => set({ inhaleTime: time }),
-  setHoldTime: (time) => set({ holdTime: time }),
-  setExhaleTime: (time) => set({ exhaleTime: time }),
-  setElapsedTime: (time) => set({ elapsedTime: time }),
-})); 
\ No newline at end of file
+  /**
+   * Selects a predefined or saved pattern with its theme, leaving any active routine,
+   * and remembers it as the last pattern chosen
+   */
+  selectPattern: (pattern) => {
+    get().setActiveRoutine(null);
+    get().setBreathingPattern(pattern.phases, pattern.progression, pattern.id);
+    get().setTheme(pattern.theme);
+    useSettingsStore.getState().setGeneralSettings({ lastPatternId: pattern.id });
+  },
+  setSessionGoal: (goal) => set({ sessionGoal: goal }),
+  /**
+   * Selects a routine, applying its first segment's pattern and theme,
+   * or clears the routine when a single pattern is chosen
+   */
+  setActiveRoutine: (routine) => {
+    set({ activeRoutine: routine, currentSegment: 0 });
+    if (routine) {
+      const [firstSegment] = routine.segments;
+      get().setBreathingPattern(firstSegment.phases, firstSegment.progression, firstSegment.patternId);
+      get().setTheme(firstSegment.theme);
+    }
+  },
+  /**
+   * Adds a custom pattern to the library, or replaces the saved pattern with the same ID
+   */
+  saveCustomPattern: (pattern) => {
+    const { customPatterns } = get();
+    const updatedPatterns = customPatterns.some(p => p.id === pattern.id)
+      ? customPatterns.map(p => (p.id === pattern.id ? pattern : p))
+      : [...customPatterns, pattern];
+    saveCustomPatterns(updatedPatterns);
+    set({ customPatterns: updatedPatterns });
+  },
+  deleteCustomPattern: (id) => {
+    const updatedPatterns = get().customPatterns.filter(p => p.id !== id);
+    saveCustomPatterns(updatedPatterns);
+    set({ customPatterns: updatedPatterns });
+  },
+  setTimingLimits: (limits) => {
+    saveTimingLimits(limits);
+    set({ timingLimits: limits });
+  },
+  /**
+   * Shows the countdown before a session, or first the check-in when check-ins are on,
+   * unless a session is already under way or a check-in is open
+   */
+  beginCountdown: () => {
+    const { isBreathing, isCountingDown, isSettlingIn, checkInStage } = get();
+    if (isBreathing || isCountingDown || isSettlingIn || checkInStage) return;
+    set(
+      useSettingsStore.getState().checkIns.enabled
+        ? { checkInStage: 'before', beforeCheckIn: null, isCoolingDown: false }
+        : { isCountingDown: true, beforeCheckIn: null, isCoolingDown: false }
+    );
+  },
+  /**
+   * Keeps the check-in before a session, or none if it was skipped, and starts the countdown
+   */
+  submitBeforeCheckIn: (checkIn) => set({ checkInStage: null, beforeCheckIn: checkIn, isCountingDown: true }),
+  /**
+   * Saves the check-in after a session, with its notes and tags, on the session just
+   * saved, or closes the check-in if it was skipped
+   */
+  submitAfterCheckIn: (reflection) => {
+    const { checkInSessionId, beforeCheckIn } = get();
+    if (reflection && checkInSessionId) {
+      sessionRepository
+        .update(checkInSessionId, {
+          ...(beforeCheckIn || reflection.after
+            ? {
+                checkIn: {
+                  ...(beforeCheckIn ? { before: beforeCheckIn } : {}),
+                  ...(reflection.after ? { after: reflection.after } : {}),
+                },
+              }
+            : {}),
+          ...(reflection.notes ? { notes: reflection.notes } : {}),
+          ...(reflection.tags.length > 0 ? { tags: reflection.tags } : {}),
+        })
+        .catch(() => set({ saveError: 'Your check-in could not be saved.' }));
+    }
+    set({ checkInStage: null, beforeCheckIn: null, checkInSessionId: null });
+  },
+  dismissSaveError: () => set({ saveError: null }),
+  /**
+   * Cancels the check-in, countdown or settle-in before a session
+   */
+  cancelCountdown: () =>
+    set(state => ({
+      isCountingDown: false,
+      isSettlingIn: false,
+      ...(state.checkInStage === 'before' ? { checkInStage: null } : {}),
+    })),
+  /**
+   * Moves from the countdown to the settle-in period; the session starts when it ends
+   */
+  beginSettleIn: () => set({ isCountingDown: false, isSettlingIn: true }),
+  endCoolDown: () => set({ isCoolingDown: false }),
+  startBreathing: () => {
+    const { phases, progression, sessionGoal, activeRoutine } = get();
+    set({ isCountingDown: false, isSettlingIn: false, isBreathing: true, currentSegment: 0 });
+    // A routine's segment lengths define the session, so the goal does not apply
+    sessionEngine.start(
+      activeRoutine
+        ? { segments: activeRoutine.segments }
+        : { segments: [{ phases, progression }], goal: sessionGoal }
+    );
+  },
+  stopBreathing: () => {
+    const { activeRoutine, setActiveRoutine } = get();
+    sessionEngine.stop();
+    // Rewind a routine to its first segment for the next session
+    if (activeRoutine) setActiveRoutine(activeRoutine);
+    set(state => ({
+      cyclePhases: state.phases,
+      isBreathing: false,
+      isPaused: false,
+      currentPhase: 'rest',
+      currentPhaseIndex: 0,
+      currentCycle: 0,
+      elapsedTime: 0,
+    }));
+  },
+  /**
+   * Saves the current session to the history and stops breathing, then starts
+   * the cool-down if one is set and asks for the check-in after the session if
+   * check-ins are on. The cool-down begins before breathing stops so
+   * the guide eases back to rest instead of snapping.
+   * Used both by the Stop button and when a session reaches its goal.
+   */
+  finishBreathing: () => {
+    const { activeRoutine, sessionGoal, beforeCheckIn, stopBreathing } = get();
+    const id = crypto.randomUUID();
+    const progress = sessionEngine.getProgress();
+    const completedCycles = progress?.completedCycles ?? 0;
+    // Routines start with their first segment's pattern and theme; their patterns are
+    // recorded per segment, so the session itself has no pattern ID
+    const { phases, progression } = activeRoutine ? activeRoutine.segments[0] : get();
+    const patternId = activeRoutine ? null : get().patternId;
+    const { primary, secondary, background } = activeRoutine
+      ? resolveTheme(activeRoutine.segments[0].theme, useSettingsStore.getState().general.theme)
+      : get().theme;
+    // An open-ended session has no goal to fall short of, so one full cycle completes it
+    const isOpenEnded = !activeRoutine && sessionGoal.type === 'open';
+    const isCompleted = sessionEngine.isComplete() || (isOpenEnded && completedCycles > 0);
+
+    const saving = sessionRepository.add({
+      id,
+      ...(patternId ? { patternId } : {}),
+      pattern: formatProgression(phases, progression),
+      duration: Math.round(progress?.elapsed ?? 0),
+      startedAt: new Date(sessionEngine.getStartTime() ?? Date.now()).toISOString(),
+      date: new Date().toISOString(),
+      phases,
+      endPhases: progress?.phases ?? phases,
+      ...(progression ? { progression } : {}),
+      pauses: sessionEngine.getPauses().map(Math.round),
+      cycles: completedCycles,
+      ...(activeRoutine
+        ? {
+            routine: {
+              name: activeRoutine.name,
+              segments: sessionEngine.getSegmentBreakdown().map(breakdown => {
+                const segment = activeRoutine.segments[breakdown.segmentIndex];
+                return {
+                  patternId: segment.patternId,
+                  name: segment.name,
+                  pattern: formatProgression(segment.phases, segment.progression),
+                  duration: Math.round(breakdown.duration),
+                  cycles: breakdown.cycles,
+                };
+              }),
+            },
+          }
+        : { goal: sessionGoal }),
+      status: isCompleted ? 'completed' : 'abandoned',
+      theme: { primary, secondary, background },
+      phaseLog: sessionEngine.getPhaseLog(),
+      ...(beforeCheckIn ? { checkIn: { before: beforeCheckIn } } : {}),
+    });
+    saving.catch(() => set({ saveError: 'This session could not be saved to your history.' }));
+
+    const { stages, checkIns } = useSettingsStore.getState();
+    set({
+      isCoolingDown: stages.coolDown > 0,
+      checkInStage: checkIns.enabled ? 'after' : null,
+      checkInSessionId: checkIns.enabled ? id : null,
+    });
+    stopBreathing();
+  },
+  pauseBreathing: () => {
+    sessionEngine.pause();
+    set({ isPaused: true });
+  },
+  resumeBreathing: () => {
+    sessionEngine.resume();
+    set({ isPaused: false });
+  },
+}));
+
+updateScrollbarColors(useBreathingStore.getState().theme.primary);
+
+/**
+ * Shows the newly chosen theme as soon as the theme preference changes
+ */
+useSettingsStore.subscribe((state, previous) => {
+  if (state.general.theme !== previous.general.theme) {
+    const { patternTheme, setTheme } = useBreathingStore.getState();
+    setTheme(patternTheme);
+  }
+});
+
+/**
+ * Publishes session engine progress into the store, switches pattern and theme
+ * at routine segment boundaries and saves the session once the engine reports
+ * that its goal was reached.
+ * Only phase changes and whole elapsed seconds are published, so components
+ * re-render at those boundaries rather than on every engine tick.
+ */
+sessionEngine.subscribe(({ type, progress }) => {
+  if (type === 'complete') {
+    useBreathingStore.getState().finishBreathing();
+    return;
+  }
+
+  if (type === 'segment') {
+    const { activeRoutine, setBreathingPattern, setTheme } = useBreathingStore.getState();
+    const segment = activeRoutine?.segments[progress.segmentIndex];
+    if (segment) {
+      setBreathingPattern(segment.phases, segment.progression, segment.patternId);
+      setTheme(segment.theme);
+    }
+    useBreathingStore.setState({ currentSegment: progress.segmentIndex });
+    return;
+  }
+
+  if (type === 'phase') {
+    useBreathingStore.setState({
+      cyclePhases: progress.phases,
+      currentPhase: progress.phase.type,
+      currentPhaseIndex: progress.phaseIndex,
+      currentCycle: progress.cycleIndex,
+    });
+    return;
+  }
+
+  const elapsedTime = Math.floor(progress.elapsed);
+  if (elapsedTime !== useBreathingStore.getState().elapsedTime) {
+    useBreathingStore.setState({ elapsedTime });
+  }
+}); 
\ No newline at end of file
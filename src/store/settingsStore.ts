@@ -0,0 +1,97 @@
+/**
+ * User preferences store.
+ * Holds the user's preferences, one section per feature. They are loaded from
+ * localStorage on startup and every change is saved back.
+ */
+
+import { create } from 'zustand';
+import { loadSettings, saveSettings, type Settings } from '../lib/settings';
+import type { AudioSettings } from '../lib/audioCues';
+import type { VoiceSettings } from '../lib/voiceCoach';
+import type { HapticSettings } from '../lib/haptics';
+import type { SoundscapeSettings } from '../lib/soundscape';
+import type { AccessibilitySettings } from '../lib/accessibility';
+import type { ShortcutBindings } from '../lib/shortcuts';
+import type { DisplaySettings } from '../lib/display';
+import type { SessionStageSettings } from '../lib/sessionStages';
+import type { BackgroundSettings } from '../lib/wakeLock';
+import type { GeneralSettings } from '../lib/generalSettings';
+import type { CheckInSettings } from '../lib/checkIns';
+
+/**
+ * Interface defining the shape of the settings state
+ * Includes:
+ * - The current preferences for each feature
+ * - Methods that update a feature's preferences
+ */
+interface SettingsState extends Settings {
+  setGeneralSettings: (update: Partial<GeneralSettings>) => void;
+  setAudioSettings: (update: Partial<AudioSettings>) => void;
+  setVoiceSettings: (update: Partial<VoiceSettings>) => void;
+  setHapticSettings: (update: Partial<HapticSettings>) => void;
+  setAmbientSettings: (update: Partial<SoundscapeSettings>) => void;
+  setAccessibilitySettings: (update: Partial<AccessibilitySettings>) => void;
+  setShortcuts: (shortcuts: ShortcutBindings) => void;
+  setDisplaySettings: (update: Partial<DisplaySettings>) => void;
+  setStageSettings: (update: Partial<SessionStageSettings>) => void;
+  setBackgroundSettings: (update: Partial<BackgroundSettings>) => void;
+  setCheckInSettings: (update: Partial<CheckInSettings>) => void;
+}
+
+/**
+ * Picks the preferences out of the store state
+ */
+const getSettings = (
+  { general, audio, voice, haptics, ambient, accessibility, shortcuts, display, stages, background, checkIns }: SettingsState
+): Settings => ({ general, audio, voice, haptics, ambient, accessibility, shortcuts, display, stages, background, checkIns });
+
+/**
+ * Zustand store for user preferences, loaded from localStorage on startup
+ */
+export const useSettingsStore = create<SettingsState>((set, get) => ({
+  ...loadSettings(),
+  setGeneralSettings: (update) => {
+    set(state => ({ general: { ...state.general, ...update } }));
+    saveSettings(getSettings(get()));
+  },
+  setAudioSettings: (update) => {
+    set(state => ({ audio: { ...state.audio, ...update } }));
+    saveSettings(getSettings(get()));
+  },
+  setVoiceSettings: (update) => {
+    set(state => ({ voice: { ...state.voice, ...update } }));
+    saveSettings(getSettings(get()));
+  },
+  setHapticSettings: (update) => {
+    set(state => ({ haptics: { ...state.haptics, ...update } }));
+    saveSettings(getSettings(get()));
+  },
+  setAmbientSettings: (update) => {
+    set(state => ({ ambient: { ...state.ambient, ...update } }));
+    saveSettings(getSettings(get()));
+  },
+  setAccessibilitySettings: (update) => {
+    set(state => ({ accessibility: { ...state.accessibility, ...update } }));
+    saveSettings(getSettings(get()));
+  },
+  setShortcuts: (shortcuts) => {
+    set({ shortcuts });
+    saveSettings(getSettings(get()));
+  },
+  setDisplaySettings: (update) => {
+    set(state => ({ display: { ...state.display, ...update } }));
+    saveSettings(getSettings(get()));
+  },
+  setStageSettings: (update) => {
+    set(state => ({ stages: { ...state.stages, ...update } }));
+    saveSettings(getSettings(get()));
+  },
+  setBackgroundSettings: (update) => {
+    set(state => ({ background: { ...state.background, ...update } }));
+    saveSettings(getSettings(get()));
+  },
+  setCheckInSettings: (update) => {
+    set(state => ({ checkIns: { ...state.checkIns, ...update } }));
+    saveSettings(getSettings(get()));
+  },
+}));